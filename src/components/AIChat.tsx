@@ -1,36 +1,91 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useSettings } from '@/hooks/useSettings';
-import { supabase } from '@/integrations/supabase/client';
+import { useChatSessions, sessionTitleFrom, type ChatMessage } from '@/hooks/useChatSessions';
+import { streamChat, type ChatAction, type ChatCitation } from '@/lib/chatStream';
+import { ChatSessionList } from './ChatSessionList';
+import { ChatActionCard } from './ChatActionCard';
+import { ChatScopePicker } from './ChatScopePicker';
+import { defaultScopeSelection, toChatScope, type ChatScopeSelection } from '@/lib/chatScope';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Send, Sparkles, Settings, ExternalLink, Bot, User } from 'lucide-react';
+import { Send, Sparkles, Settings, ExternalLink, Bot, User, Square, Wand2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'react-router-dom';
 
-interface Message {
+type Message = ChatMessage;
+
+const MAX_HISTORY_MESSAGES = 20;
+// Remembers the open conversation across view switches and reloads
+const ACTIVE_SESSION_KEY = 'aiChat.activeSessionId';
+
+export interface CitedPassage {
+  start: number;
+  end: number;
+}
+
+interface Note {
   id: string;
-  content: string;
-  isUser: boolean;
-  timestamp: Date;
-  sourceNotes?: Array<{id: string, title: string}>;
+  title: string;
+  tags?: string[];
 }
 
 interface AIChatProps {
-  onSelectNote?: (noteId: string) => void;
+  // Notes the chat can be scoped to; the open note is the default scope
+  notes?: Note[];
+  activeNote?: Note | null;
+  onSelectNote?: (noteId: string, passage?: CitedPassage) => void;
+  // Apply a confirmed action; resolve to false if it failed
+  onCreateTask?: (title: string, priority: 'low' | 'medium' | 'high', linkedNoteId?: string) => Promise<boolean>;
+  onAppendToNote?: (noteId: string, content: string) => Promise<boolean>;
+}
+
+// Render [n] markers that match a citation as buttons that open the passage
+function CitedText({ content, citations, onCite }: {
+  content: string;
+  citations: ChatCitation[];
+  onCite: (citation: ChatCitation) => void;
+}) {
+  const parts = content.split(/(\[\d+\])/g);
+
+  return (
+    <p className="whitespace-pre-wrap break-words leading-relaxed">
+      {parts.map((part, index) => {
+        const citation = citations.find(c => `[${c.number}]` === part);
+        if (!citation) return <React.Fragment key={index}>{part}</React.Fragment>;
+
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onCite(citation)}
+            title={`${citation.noteTitle} › ${citation.section}`}
+            className="inline-flex items-center justify-center align-super text-[10px] font-semibold min-w-4 h-4 px-1 mx-0.5 rounded bg-primary/15 text-primary hover:bg-primary/25 transition-colors"
+          >
+            {citation.number}
+          </button>
+        );
+      })}
+    </p>
+  );
 }
 
-export function AIChat({ onSelectNote }: AIChatProps) {
+export function AIChat({ notes = [], activeNote, onSelectNote, onCreateTask, onAppendToNote }: AIChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [actionsEnabled, setActionsEnabled] = useState(false);
+  const [scopeSelection, setScopeSelection] = useState<ChatScopeSelection>(() => defaultScopeSelection(activeNote?.id));
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(() => localStorage.getItem(ACTIVE_SESSION_KEY));
   const { user } = useAuth();
-  const { settings, hasGeminiApiKey } = useSettings();
+  const { settings, isChatConfigured } = useSettings();
+  const { sessions, loading: sessionsLoading, createSession, renameSession, deleteSession, loadMessages, saveMessage, updateMessageActions } = useChatSessions();
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -40,61 +95,164 @@ export function AIChat({ onSelectNote }: AIChatProps) {
     scrollToBottom();
   }, [messages]);
 
+  // Don't keep generating into an unmounted chat
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    if (activeSessionId) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, activeSessionId);
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY);
+    }
+  }, [activeSessionId]);
+
+  // Resume the remembered conversation once the session list has loaded
+  useEffect(() => {
+    if (sessionsLoading || !activeSessionId || messages.length > 0) return;
+
+    if (sessions.some(session => session.id === activeSessionId)) {
+      loadMessages(activeSessionId).then(setMessages);
+    } else {
+      setActiveSessionId(null);
+    }
+  }, [sessionsLoading]);
+
+  const selectSession = async (sessionId: string) => {
+    if (loading || sessionId === activeSessionId) return;
+    setActiveSessionId(sessionId);
+    setMessages(await loadMessages(sessionId));
+  };
+
+  const startNewChat = () => {
+    if (loading) return;
+    setActiveSessionId(null);
+    setMessages([]);
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    const deleted = await deleteSession(sessionId);
+    if (deleted && sessionId === activeSessionId) {
+      startNewChat();
+    }
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || loading || !user) return;
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       content: input.trim(),
       isUser: true,
       timestamp: new Date(),
     };
 
+    // Earlier turns give follow-ups their meaning; the server trims them to its token budget
+    const history = messages
+      .filter(message => message.content && !message.isError)
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(message => ({ role: message.isUser ? 'user' : 'model', content: message.content }));
+
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setLoading(true);
 
+    // The first message of a new chat creates its session, titled after the question
+    let sessionId = activeSessionId;
+    if (!sessionId) {
+      const session = await createSession(sessionTitleFrom(userMessage.content));
+      sessionId = session?.id ?? null;
+      setActiveSessionId(sessionId);
+    }
+    if (sessionId) {
+      await saveMessage(sessionId, userMessage);
+    }
+
+    // Track the reply locally as well, so the final version can be persisted
+    let reply: Message = {
+      id: crypto.randomUUID(),
+      content: '',
+      isUser: false,
+      timestamp: new Date(),
+      sourceNotes: []
+    };
+    const updateAiMessage = (update: (message: Message) => Message) => {
+      reply = update(reply);
+      setMessages(prev => prev.map(message => message.id === reply.id ? reply : message));
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessages(prev => [...prev, reply]);
+
     try {
-      const { data, error } = await supabase.functions.invoke('gemini-chat-local', {
-        body: {
-          message: userMessage.content
-        }
-      });
-
-      if (error) throw error;
-
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.response,
-        isUser: false,
-        timestamp: new Date(),
-        sourceNotes: data.sourceNotes || []
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
-    } catch (error: any) {
-      console.error('Chat error:', error);
-      toast({
-        title: "Error",
-        description: error.message || "Failed to get AI response",
-        variant: "destructive",
-      });
-
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: "I apologize, but I encountered an error. Please try again or check your settings.",
-        isUser: false,
-        timestamp: new Date(),
-      };
-
-      setMessages(prev => [...prev, errorMessage]);
+      await streamChat('gemini-chat-local', {
+        message: userMessage.content,
+        history,
+        actions: actionsEnabled,
+        scope: toChatScope(scopeSelection, activeNote?.id),
+      }, {
+        onSources: ({ sourceNotes, citations }) => updateAiMessage(message => ({ ...message, sourceNotes, citations })),
+        onToken: (text) => updateAiMessage(message => ({ ...message, content: message.content + text })),
+        onActions: (actions) => updateAiMessage(message => ({ ...message, actions })),
+      }, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateAiMessage(message => ({ ...message, content: message.content || 'Stopped.' }));
+      } else {
+        console.error('Chat error:', error);
+        toast({
+          title: "Error",
+          description: (error as Error).message || "Failed to get AI response",
+          variant: "destructive",
+        });
+
+        updateAiMessage(message => ({
+          ...message,
+          content: "I apologize, but I encountered an error. Please try again or check your settings.",
+          sourceNotes: [],
+          citations: [],
+          isError: true
+        }));
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
+
+    if (sessionId) {
+      await saveMessage(sessionId, reply);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const setActionStatus = (messageId: string, actionId: string, status: ChatAction['status']) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.actions) return;
+
+    const actions = message.actions.map(action => action.id === actionId ? { ...action, status } : action);
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, actions } : m));
+    if (activeSessionId) {
+      updateMessageActions(messageId, actions);
+    }
+  };
+
+  const handleConfirmAction = async (messageId: string, action: ChatAction) => {
+    const applied = action.type === 'create_task'
+      ? await onCreateTask?.(action.title, action.priority, action.linkedNoteId ?? undefined)
+      : await onAppendToNote?.(action.noteId, action.content);
+
+    if (applied) {
+      setActionStatus(messageId, action.id, 'applied');
+    }
   };
 
-  if (!hasGeminiApiKey()) {
+  if (!isChatConfigured()) {
     return (
       <Card className="h-full flex flex-col">
         <CardHeader>
@@ -107,7 +265,7 @@ export function AIChat({ onSelectNote }: AIChatProps) {
           <Alert>
             <Settings className="h-4 w-4" />
             <AlertDescription className="space-y-2">
-              <p>To use the AI chat feature, please add your Gemini API key in settings.</p>
+              <p>To use the AI chat feature, please add your Gemini API key or choose another chat model in settings.</p>
               <p className="text-xs text-muted-foreground">✨ Embeddings are generated locally!</p>
               <Link to="/settings">
                 <Button variant="outline" size="sm">
@@ -138,102 +296,168 @@ export function AIChat({ onSelectNote }: AIChatProps) {
         </div>
       </CardHeader>
 
-      <CardContent className="flex-1 flex flex-col space-y-4">
-        <ScrollArea className="flex-1 pr-4 max-h-[calc(100vh-200px)]">
-          <div className="space-y-4 min-h-0">
-            {messages.length === 0 && (
-              <div className="text-center text-muted-foreground py-8">
-                <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p>Ask me anything about your notes!</p>
-                <p className="text-sm mt-1">I'll search through your content to help answer your questions.</p>
-              </div>
-            )}
+      <CardContent className="flex-1 flex min-h-0">
+        <ChatSessionList
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          disabled={loading}
+          onSelect={selectSession}
+          onNewChat={startNewChat}
+          onRename={renameSession}
+          onDelete={handleDeleteSession}
+        />
+
+        <div className="flex-1 flex flex-col space-y-4 min-w-0 pl-4">
+          <ScrollArea className="flex-1 pr-4 max-h-[calc(100vh-200px)]">
+            <div className="space-y-4 min-h-0">
+              {messages.length === 0 && (
+                <div className="text-center text-muted-foreground py-8">
+                  <Bot className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p>Ask me anything about your notes!</p>
+                  <p className="text-sm mt-1">I'll search through your content to help answer your questions.</p>
+                </div>
+              )}
             
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${message.isUser ? 'justify-end' : 'justify-start'} mb-4`}
-              >
+              {messages.filter(message => message.isUser || message.content).map((message) => (
                 <div
-                  className={`max-w-[85%] rounded-lg p-4 ${
-                    message.isUser
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-muted'
-                  }`}
+                  key={message.id}
+                  className={`flex ${message.isUser ? 'justify-end' : 'justify-start'} mb-4`}
                 >
-                  <div className="flex items-start space-x-3">
-                    {message.isUser ? (
-                      <User className="h-5 w-5 mt-0.5 flex-shrink-0" />
-                    ) : (
-                      <Bot className="h-5 w-5 mt-0.5 flex-shrink-0" />
-                    )}
-                    <div className="flex-1 min-w-0">
-                      <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                  <div
+                    className={`max-w-[85%] rounded-lg p-4 ${
+                      message.isUser
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted'
+                    }`}
+                  >
+                    <div className="flex items-start space-x-3">
+                      {message.isUser ? (
+                        <User className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <Bot className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        {message.citations && message.citations.length > 0 ? (
+                          <CitedText
+                            content={message.content}
+                            citations={message.citations}
+                            onCite={(citation) => onSelectNote?.(
+                              citation.noteId,
+                              citation.charStart !== null && citation.charEnd !== null
+                                ? { start: citation.charStart, end: citation.charEnd }
+                                : undefined
+                            )}
+                          />
+                        ) : (
+                          <p className="whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
+                        )}
                       
-                      {message.sourceNotes && message.sourceNotes.length > 0 && (
-                        <div className="mt-3 pt-3 border-t border-border/30">
-                          <p className="text-xs opacity-75 mb-2 font-medium">
-                            📚 Referenced from {message.sourceNotes.length} note{message.sourceNotes.length !== 1 ? 's' : ''}:
-                          </p>
-                          <div className="grid gap-1">
-                            {message.sourceNotes.map((note, index) => (
-                              <Button
-                                key={note.id}
-                                variant="ghost"
-                                size="sm"
-                                className="h-auto p-2 text-xs justify-start w-full hover:bg-accent/50 transition-colors"
-                                onClick={() => onSelectNote?.(note.id)}
-                              >
-                                <div className="flex items-center space-x-2 w-full">
-                                  <ExternalLink className="h-3 w-3 flex-shrink-0 opacity-60" />
-                                  <span className="truncate font-medium">{note.title}</span>
-                                  <span className="text-xs opacity-50 ml-auto">#{index + 1}</span>
-                                </div>
-                              </Button>
+                        {message.sourceNotes && message.sourceNotes.length > 0 && (
+                          <div className="mt-3 pt-3 border-t border-border/30">
+                            <p className="text-xs opacity-75 mb-2 font-medium">
+                              📚 Referenced from {message.sourceNotes.length} note{message.sourceNotes.length !== 1 ? 's' : ''}:
+                            </p>
+                            <div className="grid gap-1">
+                              {message.sourceNotes.map((note, index) => (
+                                <Button
+                                  key={note.id}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-auto p-2 text-xs justify-start w-full hover:bg-accent/50 transition-colors"
+                                  onClick={() => onSelectNote?.(note.id)}
+                                >
+                                  <div className="flex items-center space-x-2 w-full">
+                                    <ExternalLink className="h-3 w-3 flex-shrink-0 opacity-60" />
+                                    <div className="min-w-0 text-left">
+                                      <span className="block truncate font-medium">{note.title}</span>
+                                      {note.sections && note.sections.length > 0 && (
+                                        <span className="block truncate opacity-60">{note.sections.join(' • ')}</span>
+                                      )}
+                                    </div>
+                                    <span className="text-xs opacity-50 ml-auto">#{index + 1}</span>
+                                  </div>
+                                </Button>
+                              ))}
+                            </div>
+                            <p className="text-xs opacity-50 mt-2">
+                              💡 Click any note to view the full content
+                            </p>
+                          </div>
+                        )}
+
+                        {message.actions && message.actions.length > 0 && (
+                          <div className="mt-3 space-y-2">
+                            {message.actions.map(action => (
+                              <ChatActionCard
+                                key={action.id}
+                                action={action}
+                                onConfirm={(confirmed) => handleConfirmAction(message.id, confirmed)}
+                                onDismiss={(dismissed) => setActionStatus(message.id, dismissed.id, 'dismissed')}
+                              />
                             ))}
                           </div>
-                          <p className="text-xs opacity-50 mt-2">
-                            💡 Click any note to view the full content
-                          </p>
-                        </div>
-                      )}
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              ))}
             
-            {loading && (
-              <div className="flex justify-start mb-4">
-                <div className="bg-muted rounded-lg p-4 max-w-[85%]">
-                  <div className="flex items-center space-x-3">
-                    <Bot className="h-5 w-5 flex-shrink-0" />
-                    <div className="flex space-x-1">
-                      <div className="w-2 h-2 bg-current rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                      <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+              {loading && !messages[messages.length - 1]?.content && (
+                <div className="flex justify-start mb-4">
+                  <div className="bg-muted rounded-lg p-4 max-w-[85%]">
+                    <div className="flex items-center space-x-3">
+                      <Bot className="h-5 w-5 flex-shrink-0" />
+                      <div className="flex space-x-1">
+                        <div className="w-2 h-2 bg-current rounded-full animate-bounce"></div>
+                        <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                        <div className="w-2 h-2 bg-current rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-          <div ref={messagesEndRef} />
-        </ScrollArea>
-
-        <div className="border-t border-border pt-4">
-          <form onSubmit={handleSendMessage} className="flex space-x-3">
-            <Input
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Ask me about your notes..."
+              )}
+            </div>
+            <div ref={messagesEndRef} />
+          </ScrollArea>
+
+          <div className="border-t border-border pt-2 space-y-2">
+            <ChatScopePicker
+              notes={notes}
+              activeNote={activeNote}
+              value={scopeSelection}
+              onChange={setScopeSelection}
               disabled={loading}
-              className="flex-1"
             />
-            <Button type="submit" disabled={loading || !input.trim()} size="icon">
-              <Send className="h-4 w-4" />
-            </Button>
-          </form>
+            <form onSubmit={handleSendMessage} className="flex space-x-3">
+              <Button
+                type="button"
+                variant={actionsEnabled ? 'default' : 'outline'}
+                size="icon"
+                onClick={() => setActionsEnabled(enabled => !enabled)}
+                title={actionsEnabled ? 'Actions on: the assistant can propose tasks and note edits' : 'Let the assistant propose tasks and note edits'}
+                disabled={loading}
+              >
+                <Wand2 className="h-4 w-4" />
+              </Button>
+              <Input
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Ask me about your notes..."
+                disabled={loading}
+                className="flex-1"
+              />
+              {loading ? (
+                <Button type="button" variant="outline" size="icon" onClick={handleStop} title="Stop generating">
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button type="submit" disabled={!input.trim()} size="icon">
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </form>
+          </div>
         </div>
       </CardContent>
     </Card>
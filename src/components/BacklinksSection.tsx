@@ -0,0 +1,54 @@
+import React from 'react';
+import { useBacklinks } from '@/hooks/useBacklinks';
+import { Badge } from '@/components/ui/badge';
+import { Link2, FileText } from 'lucide-react';
+
+interface BacklinksSectionProps {
+  noteId: string;
+  // Refetch when this changes, e.g. the note's last update time
+  version?: string | number;
+  onOpenNote: (noteId: string) => void;
+}
+
+export function BacklinksSection({ noteId, version, onOpenNote }: BacklinksSectionProps) {
+  const { backlinks, loading, error } = useBacklinks(noteId, version);
+
+  return (
+    <section className="mt-10 pt-6 border-t border-border">
+      <div className="flex items-center gap-2 mb-3">
+        <Link2 className="h-4 w-4 text-primary" />
+        <h2 className="text-sm font-medium">Backlinks</h2>
+        {backlinks.length > 0 && (
+          <Badge variant="secondary" className="text-xs">{backlinks.length}</Badge>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {!error && !loading && backlinks.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No notes link here yet. Link to this note from another one with [[Note Title]].
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {backlinks.map(backlink => (
+          <button
+            key={backlink.noteId}
+            type="button"
+            onClick={() => onOpenNote(backlink.noteId)}
+            className="w-full text-left rounded-lg border border-border/50 p-3 transition-fast hover:border-primary/30 hover:bg-accent/10"
+          >
+            <div className="flex items-center gap-1.5">
+              <FileText className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <span className="text-sm font-medium truncate">{backlink.title || 'Untitled'}</span>
+            </div>
+            {backlink.context && (
+              <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{backlink.context}</p>
+            )}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
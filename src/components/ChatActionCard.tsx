@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import type { ChatAction } from '@/lib/chatStream';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, CheckSquare, FilePlus, X } from 'lucide-react';
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  onConfirm: (action: ChatAction) => Promise<void>;
+  onDismiss: (action: ChatAction) => void;
+}
+
+const priorityVariant = {
+  high: 'destructive',
+  medium: 'default',
+  low: 'secondary',
+} as const;
+
+export function ChatActionCard({ action, onConfirm, onDismiss }: ChatActionCardProps) {
+  const [applying, setApplying] = useState(false);
+
+  const handleConfirm = async () => {
+    setApplying(true);
+    try {
+      await onConfirm(action);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-border bg-background p-3 text-sm space-y-2">
+      {action.type === 'create_task' ? (
+        <>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <CheckSquare className="h-3 w-3" />
+            <span>Create task</span>
+            <Badge variant={priorityVariant[action.priority]} className="text-[10px] px-1.5 py-0">
+              {action.priority}
+            </Badge>
+          </div>
+          <p className="font-medium break-words">{action.title}</p>
+          {action.linkedNoteTitle && (
+            <p className="text-xs text-muted-foreground truncate">Linked to "{action.linkedNoteTitle}"</p>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <FilePlus className="h-3 w-3" />
+            <span className="truncate">Append to "{action.noteTitle}"</span>
+          </div>
+          <p className="whitespace-pre-wrap break-words text-xs bg-muted rounded p-2 max-h-40 overflow-y-auto">
+            {action.content}
+          </p>
+        </>
+      )}
+
+      {action.status === 'pending' ? (
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" className="h-7" disabled={applying} onClick={() => onDismiss(action)}>
+            <X className="h-3 w-3 mr-1" />
+            Dismiss
+          </Button>
+          <Button size="sm" className="h-7" disabled={applying} onClick={handleConfirm}>
+            <Check className="h-3 w-3 mr-1" />
+            {applying ? 'Applying...' : 'Confirm'}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground text-right">
+          {action.status === 'applied' ? '✓ Applied' : 'Dismissed'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { defaultScopeSelection, type ChatScopeMode, type ChatScopeSelection } from '@/lib/chatScope';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Filter } from 'lucide-react';
+
+interface ScopeNote {
+  id: string;
+  title: string;
+  tags?: string[];
+}
+
+interface ChatScopePickerProps {
+  notes: ScopeNote[];
+  activeNote?: ScopeNote | null;
+  value: ChatScopeSelection;
+  onChange: (selection: ChatScopeSelection) => void;
+  disabled?: boolean;
+}
+
+export function ChatScopePicker({ notes, activeNote, value, onChange, disabled }: ChatScopePickerProps) {
+  const allTags = useMemo(
+    () => [...new Set(notes.flatMap(note => note.tags || []))].sort(),
+    [notes]
+  );
+
+  const toggle = (list: string[], item: string) =>
+    list.includes(item) ? list.filter(entry => entry !== item) : [...list, item];
+
+  const summary = (() => {
+    const dated = value.updatedFrom || value.updatedTo ? ' · dated' : '';
+    switch (value.mode) {
+      case 'current':
+        return activeNote ? `This note: ${activeNote.title}${dated}` : `All notes${dated}`;
+      case 'tags':
+        return value.tags.length > 0 ? `Tags: ${value.tags.join(', ')}${dated}` : `All notes${dated}`;
+      case 'notes':
+        return value.noteIds.length > 0
+          ? `${value.noteIds.length} note${value.noteIds.length !== 1 ? 's' : ''}${dated}`
+          : `All notes${dated}`;
+      default:
+        return `All notes${dated}`;
+    }
+  })();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs max-w-full" disabled={disabled}>
+          <Filter className="h-3 w-3 mr-1 flex-shrink-0" />
+          <span className="truncate">{summary}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label>Search in</Label>
+          <Select value={value.mode} onValueChange={(mode: ChatScopeMode) => onChange({ ...value, mode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All notes</SelectItem>
+              <SelectItem value="current" disabled={!activeNote}>
+                Current note{activeNote ? ` (${activeNote.title})` : ''}
+              </SelectItem>
+              <SelectItem value="tags" disabled={allTags.length === 0}>Notes with tags</SelectItem>
+              <SelectItem value="notes">Selected notes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value.mode === 'tags' && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map(tag => (
+              <Badge
+                key={tag}
+                variant={value.tags.includes(tag) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => onChange({ ...value, tags: toggle(value.tags, tag) })}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {value.mode === 'notes' && (
+          <ScrollArea className="h-48 rounded-md border border-border p-2">
+            <div className="space-y-2">
+              {notes.map(note => (
+                <label key={note.id} className="flex items-center space-x-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={value.noteIds.includes(note.id)}
+                    onCheckedChange={() => onChange({ ...value, noteIds: toggle(value.noteIds, note.id) })}
+                  />
+                  <span className="truncate">{note.title}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="space-y-2">
+          <Label>Updated between</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={value.updatedFrom}
+              max={value.updatedTo || undefined}
+              onChange={(e) => onChange({ ...value, updatedFrom: e.target.value })}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="date"
+              value={value.updatedTo}
+              min={value.updatedFrom || undefined}
+              onChange={(e) => onChange({ ...value, updatedTo: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => onChange(defaultScopeSelection(null))}
+        >
+          Search all notes
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ChatSession } from '@/hooks/useChatSessions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ChatSessionListProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onNewChat: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+export function ChatSessionList({
+  sessions,
+  activeSessionId,
+  disabled,
+  onSelect,
+  onNewChat,
+  onRename,
+  onDelete
+}: ChatSessionListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editTitle.trim()) {
+      onRename(editingId, editTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-56 flex-shrink-0 flex flex-col border-r border-border pr-3">
+      <Button variant="outline" size="sm" className="mb-3" onClick={onNewChat} disabled={disabled}>
+        <Plus className="h-4 w-4 mr-2" />
+        New chat
+      </Button>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-1">
+          {sessions.length === 0 && (
+            <p className="text-xs text-muted-foreground px-2 py-4 text-center">
+              Your conversations will appear here
+            </p>
+          )}
+
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`group rounded-md px-2 py-1.5 text-sm ${
+                session.id === activeSessionId ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              }`}
+            >
+              {editingId === session.id ? (
+                <form
+                  className="flex items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    commitRename();
+                  }}
+                >
+                  <Input
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-6 w-6">
+                    <Check className="h-3 w-3" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setEditingId(null)}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                    onClick={() => onSelect(session.id)}
+                    disabled={disabled}
+                  >
+                    <div className="flex items-center gap-2">
+                      <MessageSquare className="h-3 w-3 flex-shrink-0 opacity-60" />
+                      <span className="truncate">{session.title}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground pl-5">
+                      {formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}
+                    </div>
+                  </button>
+                  <div className="hidden group-hover:flex items-center">
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startEditing(session)} title="Rename">
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" title="Delete" disabled={disabled}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Chat</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete "{session.title}"? This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => onDelete(session.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Collaborator, CollabStatus } from '@/hooks/useCollaborativeNote';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+interface CollaboratorAvatarsProps {
+  collaborators: Collaborator[];
+  status: CollabStatus;
+  className?: string;
+}
+
+const MAX_AVATARS = 4;
+
+const initialsFor = (name: string) => {
+  const local = name.split('@')[0];
+  const parts = local.split(/[._\s-]+/).filter(Boolean);
+  return ((parts[0]?.[0] || '') + (parts[1]?.[0] || '')).toUpperCase() || '?';
+};
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  offline: 'Offline — edits will sync when reconnected',
+};
+
+// Who else has this note open, one avatar per person in their cursor colour
+export function CollaboratorAvatars({ collaborators, status, className }: CollaboratorAvatarsProps) {
+  // The same person can have the note open in several tabs
+  const people = collaborators.filter((collaborator, index) =>
+    collaborators.findIndex(other => other.userId === collaborator.userId) === index
+  );
+  const shown = people.slice(0, MAX_AVATARS);
+  const hidden = people.slice(MAX_AVATARS);
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <span
+          className={cn(
+            'h-2 w-2 rounded-full',
+            status === 'live' && 'bg-green-500',
+            status === 'connecting' && 'bg-yellow-500 animate-pulse',
+            status === 'offline' && 'bg-destructive'
+          )}
+        />
+        {STATUS_LABELS[status]}
+      </span>
+      <div className="flex -space-x-2">
+        {shown.map(person => (
+          <Tooltip key={person.userId}>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2 border-background" style={{ boxShadow: `0 0 0 2px ${person.color}` }}>
+                <AvatarFallback className="text-[10px] font-medium text-white" style={{ backgroundColor: person.color }}>
+                  {initialsFor(person.name)}
+                </AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>{person.name}</TooltipContent>
+          </Tooltip>
+        ))}
+        {hidden.length > 0 && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2 border-background">
+                <AvatarFallback className="text-[10px]">+{hidden.length}</AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>{hidden.map(person => person.name).join(', ')}</TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -12,9 +11,14 @@ import {
   Calendar,
   Hash,
   Command,
-  Sparkles
+  Sparkles,
+  Trash2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useNoteSearch } from '@/hooks/useNoteSearch';
+import { HighlightedText } from './HighlightedText';
+import { SearchQueryInput } from './SearchQueryInput';
+import { collectSearchFacets } from '@/lib/searchQuery';
 
 interface Note {
   id: string;
@@ -31,7 +35,7 @@ interface CommandPaletteProps {
   notes: Note[];
   onNoteSelect: (note: Note) => void;
   onNewNote: () => void;
-  onViewChange: (view: 'notes' | 'tasks' | 'mindmap' | 'chat') => void;
+  onViewChange: (view: 'notes' | 'tasks' | 'mindmap' | 'chat' | 'trash') => void;
 }
 
 interface Command {
@@ -42,8 +46,14 @@ interface Command {
   action: () => void;
   group: 'actions' | 'notes';
   keywords?: string[];
+  // Search headlines with highlight markers, for notes found by search_notes
+  titleHighlight?: string;
+  snippet?: string;
 }
 
+// Notes shown by the palette for one search
+const NOTE_RESULT_LIMIT = 20;
+
 export const CommandPalette: React.FC<CommandPaletteProps> = ({
   isOpen,
   onClose,
@@ -54,6 +64,8 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
 }) => {
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const { results: searchMatches, searching, queryErrors } = useNoteSearch(query, NOTE_RESULT_LIMIT);
+  const searchFacets = useMemo(() => collectSearchFacets(notes), [notes]);
 
   const commands: Command[] = [
     {
@@ -100,22 +112,41 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       },
       group: 'actions',
       keywords: ['ai', 'chat', 'assistant', 'bot', 'gemini', 'ask', 'question']
+    },
+    {
+      id: 'view-trash',
+      title: 'Open Trash',
+      description: 'Restore or permanently delete notes and tasks',
+      icon: <Trash2 className="h-4 w-4" />,
+      action: () => {
+        onViewChange('trash');
+        onClose();
+      },
+      group: 'actions',
+      keywords: ['trash', 'deleted', 'restore', 'bin', 'recycle']
     }
   ];
 
-  const noteCommands: Command[] = notes.map(note => ({
+  const toNoteCommand = (note: Note): Command => ({
     id: note.id,
     title: note.title || 'Untitled',
     description: note.content.substring(0, 100) + (note.content.length > 100 ? '...' : ''),
     icon: <FileText className="h-4 w-4" />,
     action: () => onNoteSelect(note),
-    group: 'notes',
-    keywords: [note.title, note.content, ...note.tags].filter(Boolean)
-  }));
+    group: 'notes'
+  });
 
-  const allCommands = [...commands, ...noteCommands];
+  // Without a query every note is listed; with one, notes come ranked from
+  // the server-side full-text search
+  const notesById = new Map(notes.map(note => [note.id, note]));
+  const noteCommands: Command[] = query.trim()
+    ? searchMatches.flatMap(match => {
+        const note = notesById.get(match.id);
+        return note ? [{ ...toNoteCommand(note), titleHighlight: match.titleHighlight, snippet: match.snippet }] : [];
+      })
+    : notes.map(toNoteCommand);
 
-  const filteredCommands = allCommands.filter(command => {
+  const actionCommands = commands.filter(command => {
     if (!query) return true;
     
     const searchText = query.toLowerCase();
@@ -128,9 +159,11 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     );
   });
 
+  const filteredCommands = [...actionCommands, ...noteCommands];
+
   useEffect(() => {
     setSelectedIndex(0);
-  }, [query]);
+  }, [query, searchMatches]);
 
   useEffect(() => {
     if (isOpen) {
@@ -189,12 +222,14 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl p-0 gap-0 bg-card border-border">
         <div className="border-b border-border p-4">
-          <div className="flex items-center gap-3">
-            <Command className="h-5 w-5 text-muted-foreground" />
-            <Input
-              placeholder="Search notes, commands..."
+          <div className="flex items-start gap-3">
+            <Command className="h-5 w-5 mt-2.5 text-muted-foreground flex-shrink-0" />
+            <SearchQueryInput
+              placeholder="Search notes, commands... (tag:, lang:, has:, updated:)"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={setQuery}
+              facets={searchFacets}
+              errors={queryErrors}
               onKeyDown={handleKeyDown}
               className="border-none bg-transparent p-0 text-lg focus-visible:ring-0"
               autoFocus
@@ -210,8 +245,8 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
                   {group === 'actions' ? 'Actions' : 'Notes'}
                 </div>
                 <div className="space-y-1">
-                  {commands.map((command, index) => {
-                    const globalIndex = allCommands.findIndex(c => c.id === command.id);
+                  {commands.map((command) => {
+                    const globalIndex = filteredCommands.findIndex(c => c.id === command.id);
                     const isSelected = globalIndex === selectedIndex;
                     
                     return (
@@ -237,13 +272,23 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
                         
                         <div className="flex-1 min-w-0">
                           <div className="font-medium text-sm truncate">
-                            {command.title}
+                            {command.titleHighlight ? (
+                              <HighlightedText
+                                text={command.titleHighlight}
+                                markClassName={cn(isSelected && "bg-primary-foreground/20 text-primary-foreground")}
+                              />
+                            ) : command.title}
                           </div>
                           <div className={cn(
                             "text-xs truncate",
                             isSelected ? "text-primary-foreground/70" : "text-muted-foreground"
                           )}>
-                            {command.description}
+                            {command.snippet ? (
+                              <HighlightedText
+                                text={command.snippet}
+                                markClassName={cn(isSelected && "bg-primary-foreground/20 text-primary-foreground")}
+                              />
+                            ) : command.description}
                           </div>
                         </div>
 
@@ -277,7 +322,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
               </div>
             ))}
 
-            {filteredCommands.length === 0 && (
+            {filteredCommands.length === 0 && !searching && (
               <div className="text-center py-8 text-muted-foreground">
                 <Search className="h-8 w-8 mx-auto mb-2 opacity-50" />
                 <p className="text-sm">No results found</p>
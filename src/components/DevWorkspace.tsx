@@ -6,11 +6,18 @@ import { TaskManager } from './TaskManager';
 import { MindMapViewer } from './MindMapViewer';
 import { NotesListView } from './NotesListView';
 import { CommandPalette } from './CommandPalette';
-import { AIChat } from './AIChat';
+import { AIChat, CitedPassage } from './AIChat';
+import { TrashView } from './TrashView';
+import { RenameLinksDialog, PendingLinkRename } from './RenameLinksDialog';
+import { NoteConflictDialog, NoteConflict } from './NoteConflictDialog';
+import { ShareNoteDialog } from './ShareNoteDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { useNotes, Note as SupabaseNote } from '@/hooks/useNotes';
 import { useTasks, Task as SupabaseTask } from '@/hooks/useTasks';
 import { useEmbeddings } from '@/hooks/useEmbeddings';
+import { NoteRevision } from '@/hooks/useNoteRevisions';
+import { countBacklinks } from '@/hooks/useBacklinks';
+import { useNoteShares, NoteShare } from '@/hooks/useNoteShares';
 import { Button } from '@/components/ui/button';
 import { LogOut, User, Settings, Sparkles } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
@@ -35,17 +42,26 @@ interface Task {
   linkedNoteId?: string;
 }
 
+const sameNoteContent = (a: Pick<SupabaseNote, 'title' | 'content' | 'tags'>, b: Pick<SupabaseNote, 'title' | 'content' | 'tags'>) =>
+  a.title === b.title && a.content === b.content && a.tags.join('\n') === b.tags.join('\n');
+
 export const DevWorkspace = () => {
   const { user, signOut } = useAuth();
-  const { notes: supabaseNotes, createNote, updateNote: updateSupabaseNote, deleteNote: deleteSupabaseNote } = useNotes();
-  const { tasks: supabaseTasks, createTask: createSupabaseTask, updateTask: updateSupabaseTask, deleteTask: deleteSupabaseTask, toggleTask: toggleSupabaseTask } = useTasks();
+  const { notes: supabaseNotes, createNote, updateNote: updateSupabaseNote, saveNote, deleteNote: deleteSupabaseNote, renameNoteLinks, refetch: refetchNotes } = useNotes();
+  const { shares, shareNote, removeShare } = useNoteShares();
+  const { tasks: supabaseTasks, createTask: createSupabaseTask, updateTask: updateSupabaseTask, deleteTask: deleteSupabaseTask, toggleTask: toggleSupabaseTask, refetch: refetchTasks } = useTasks();
   const { generateEmbeddings, deleteEmbeddings } = useEmbeddings();
   
   const [activeNote, setActiveNote] = useState<SupabaseNote | null>(null);
-  const [activeView, setActiveView] = useState<'notes' | 'tasks' | 'mindmap' | 'chat'>('notes');
+  const [activeView, setActiveView] = useState<'notes' | 'tasks' | 'mindmap' | 'chat' | 'trash'>('notes');
   const [noteMode, setNoteMode] = useState<'view' | 'edit'>('view');
+  // Passage to highlight when a note is opened from a chat citation
+  const [citedPassage, setCitedPassage] = useState<(CitedPassage & { noteId: string }) | null>(null);
   const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [taskOrder, setTaskOrder] = useState<string[]>([]);
+  const [pendingLinkRename, setPendingLinkRename] = useState<PendingLinkRename | null>(null);
+  const [noteConflict, setNoteConflict] = useState<NoteConflict | null>(null);
+  const [sharingNoteId, setSharingNoteId] = useState<string | null>(null);
   const { toast } = useToast();
 
   // Convert Supabase data to legacy format for compatibility with existing components
@@ -58,6 +74,54 @@ export const DevWorkspace = () => {
     updatedAt: new Date(note.updated_at)
   }));
 
+  // Notes co-edited with someone, whether the user owns them or not
+  const sharedNoteIds = React.useMemo(() => new Set(shares.map(share => share.noteId)), [shares]);
+  const isOwnNote = (note: SupabaseNote) => note.user_id === user?.id;
+
+  // Show notes as soon as they are shared with the user, and drop them when
+  // access is removed
+  const sharedWithMeKey = shares
+    .filter(share => share.userId === user?.id)
+    .map(share => share.noteId)
+    .sort()
+    .join(',');
+  const previousSharedWithMeKey = React.useRef<string | null>(null);
+  useEffect(() => {
+    if (previousSharedWithMeKey.current !== null && previousSharedWithMeKey.current !== sharedWithMeKey) {
+      refetchNotes();
+    }
+    previousSharedWithMeKey.current = sharedWithMeKey;
+  }, [sharedWithMeKey]);
+
+  // Stable while the open note is unchanged, so re-renders from Realtime
+  // updates to other notes don't reset the editor
+  const editingNote = React.useMemo(() => activeNote ? {
+    id: activeNote.id,
+    title: activeNote.title,
+    content: activeNote.content,
+    tags: activeNote.tags,
+    createdAt: new Date(activeNote.created_at),
+    updatedAt: new Date(activeNote.updated_at)
+  } : null, [activeNote]);
+
+  const sharingNote = sharingNoteId ? supabaseNotes.find(n => n.id === sharingNoteId) : undefined;
+
+  // A newer version of the open note saved in another tab or device
+  const latestActiveNote = activeNote ? supabaseNotes.find(n => n.id === activeNote.id) : undefined;
+  const activeNoteChangedElsewhere = !!latestActiveNote && latestActiveNote.updated_at > activeNote!.updated_at;
+
+  // While viewing, follow changes made elsewhere. While editing, the save
+  // detects the conflict and asks which version to keep.
+  useEffect(() => {
+    if (!activeNote || noteMode === 'edit') return;
+    if (!latestActiveNote) {
+      // Moved to the trash or deleted
+      setActiveNote(null);
+    } else if (latestActiveNote.updated_at !== activeNote.updated_at) {
+      setActiveNote(latestActiveNote);
+    }
+  }, [latestActiveNote, activeNote, noteMode]);
+
   // Sort tasks based on custom order, falling back to creation date
   const sortedSupabaseTasks = React.useMemo(() => {
     if (taskOrder.length === 0) {
@@ -128,6 +192,10 @@ export const DevWorkspace = () => {
             e.preventDefault();
             setActiveView('chat');
             break;
+          case '5':
+            e.preventDefault();
+            setActiveView('trash');
+            break;
         }
       }
       
@@ -163,23 +231,122 @@ export const DevWorkspace = () => {
     }
   };
 
+  // Links match titles case-insensitively, so only a real rename breaks them
+  const offerLinkRename = async (oldTitle: string | undefined, savedNote: SupabaseNote) => {
+    if (!oldTitle || oldTitle.trim().toLowerCase() === savedNote.title.trim().toLowerCase()) return;
+    try {
+      const linkCount = await countBacklinks(savedNote.id);
+      if (linkCount > 0) {
+        setPendingLinkRename({ noteId: savedNote.id, oldTitle, newTitle: savedNote.title, linkCount });
+      }
+    } catch (error) {
+      console.warn('Could not check links to the renamed note:', error);
+    }
+  };
+
   const handleUpdateNote = async (updatedNote: Note) => {
     console.log('Updating note:', updatedNote.title);
-    
-    const supabaseNote = await updateSupabaseNote(updatedNote.id, {
+    const changes = {
       title: updatedNote.title,
       content: updatedNote.content,
       tags: updatedNote.tags
+    };
+
+    if (sharedNoteIds.has(updatedNote.id)) {
+      // The live editing session saves the content; this also reloads it
+      const previousTitle = activeNote?.id === updatedNote.id ? activeNote.title : undefined;
+      const supabaseNote = await updateSupabaseNote(updatedNote.id, { title: changes.title, tags: changes.tags });
+      if (supabaseNote) {
+        setActiveNote(supabaseNote);
+        offerLinkRename(previousTitle, supabaseNote);
+      }
+      return;
+    }
+
+    // The version the editor started from; saving checks nobody replaced it since
+    const base = activeNote?.id === updatedNote.id ? activeNote : null;
+    if (!base) {
+      const supabaseNote = await updateSupabaseNote(updatedNote.id, changes);
+      if (supabaseNote) setActiveNote(supabaseNote);
+      return;
+    }
+
+    if (sameNoteContent(base, changes)) {
+      // Nothing to save; pick up a newer version from another tab if there is one
+      const latest = supabaseNotes.find(n => n.id === base.id);
+      if (latest) setActiveNote(latest);
+      return;
+    }
+
+    const result = await saveNote(base.id, changes, base.updated_at);
+    if (!result) return;
+
+    if ('conflict' in result) {
+      if (result.conflict && sameNoteContent(result.conflict, changes)) {
+        // Both sides made the same edit
+        setActiveNote(result.conflict);
+      } else {
+        setNoteConflict({ noteId: base.id, local: changes, remote: result.conflict });
+      }
+      return;
+    }
+
+    setActiveNote(result.note);
+    // Embeddings are refreshed by the server-side embedding queue
+    offerLinkRename(base.title, result.note);
+  };
+
+  const handleKeepMine = async (conflict: NoteConflict) => {
+    setNoteConflict(null);
+
+    if (!conflict.remote) {
+      // Deleted elsewhere: bring the edits back as a new note
+      const newNote = await createNote(conflict.local);
+      if (newNote) setActiveNote(newNote);
+      return;
+    }
+
+    const result = await saveNote(conflict.noteId, conflict.local, conflict.remote.updated_at);
+    if (!result) return;
+    if ('conflict' in result) {
+      setNoteConflict({ ...conflict, remote: result.conflict });
+      return;
+    }
+    setActiveNote(result.note);
+    offerLinkRename(conflict.remote.title, result.note);
+  };
+
+  const handleRemoveShare = async (share: NoteShare) => {
+    const removed = await removeShare(share);
+    if (removed && share.userId === user?.id) {
+      // Left the note: it is no longer readable
+      setSharingNoteId(null);
+      if (activeNote?.id === share.noteId) setActiveNote(null);
+      refetchNotes();
+    }
+  };
+
+  const handleUseTheirs = (conflict: NoteConflict) => {
+    setNoteConflict(null);
+    setActiveNote(conflict.remote);
+  };
+
+  const handleRestoreRevision = async (revision: NoteRevision) => {
+    // The trigger on notes keeps the version being replaced as a new revision
+    const supabaseNote = await updateSupabaseNote(revision.noteId, {
+      title: revision.title,
+      content: revision.content,
+      tags: revision.tags
     });
-    
-    if (supabaseNote) {
+
+    if (supabaseNote && activeNote?.id === supabaseNote.id) {
       setActiveNote(supabaseNote);
-      // Embedding generation is now handled automatically in useNotes hook
     }
+    return !!supabaseNote;
   };
 
   const handleDeleteNote = async (noteId: string) => {
-    // Embedding deletion is now handled automatically in useNotes hook
+    // Trashed notes lose their embeddings via a trigger and come back from the Trash view
     await deleteSupabaseNote(noteId);
     if (activeNote?.id === noteId) {
       setActiveNote(null);
@@ -238,6 +405,16 @@ export const DevWorkspace = () => {
     }
   }, []);
 
+  const handleOpenNote = (noteId: string, passage?: CitedPassage) => {
+    const supabaseNote = supabaseNotes.find(n => n.id === noteId);
+    if (supabaseNote) {
+      setCitedPassage(passage ? { ...passage, noteId } : null);
+      setActiveNote(supabaseNote);
+      setActiveView('notes');
+      setNoteMode('view');
+    }
+  };
+
   const handleTaskClick = (noteId: string) => {
     const note = supabaseNotes.find(n => n.id === noteId);
     if (note) {
@@ -328,27 +505,30 @@ export const DevWorkspace = () => {
               createdAt: new Date(activeNote.created_at),
               updatedAt: new Date(activeNote.updated_at)
             }}
+            highlight={citedPassage?.noteId === activeNote.id ? citedPassage : undefined}
             onEdit={() => setNoteMode('edit')}
             onBack={() => setActiveNote(null)}
-            onDelete={handleDeleteNote}
+            onDelete={isOwnNote(activeNote) ? handleDeleteNote : undefined}
+            onOpenNote={handleOpenNote}
+            linkableNotes={supabaseNotes}
+            onRestoreRevision={isOwnNote(activeNote) ? handleRestoreRevision : undefined}
+            onShare={() => setSharingNoteId(activeNote.id)}
+            shared={sharedNoteIds.has(activeNote.id)}
           />
         )}
 
         {activeView === 'notes' && activeNote && noteMode === 'edit' && (
           <EnhancedNoteEditor
-            note={{
-              id: activeNote.id,
-              title: activeNote.title,
-              content: activeNote.content,
-              tags: activeNote.tags,
-              createdAt: new Date(activeNote.created_at),
-              updatedAt: new Date(activeNote.updated_at)
-            }}
+            note={editingNote}
             onNoteUpdate={handleUpdateNote}
             onToggleTask={handleToggleTask}
             linkedTasks={tasks.filter(task => task.linkedNoteId === activeNote.id)}
             onBack={() => setActiveNote(null)}
             onSwitchToView={() => setNoteMode('view')}
+            onOpenNote={handleOpenNote}
+            linkableNotes={supabaseNotes}
+            changedElsewhere={activeNoteChangedElsewhere && !sharedNoteIds.has(activeNote.id)}
+            collaborative={sharedNoteIds.has(activeNote.id)}
           />
         )}
         
@@ -378,22 +558,62 @@ export const DevWorkspace = () => {
           />
         )}
 
+        {activeView === 'trash' && (
+          <TrashView
+            onRestored={(item) => (item.kind === 'note' ? refetchNotes() : refetchTasks())}
+          />
+        )}
+
         {activeView === 'chat' && (
           <div className="flex-1 p-4">
             <AIChat 
-              onSelectNote={(noteId) => {
+              notes={supabaseNotes}
+              activeNote={activeNote}
+              onSelectNote={handleOpenNote}
+              onCreateTask={async (title, priority, linkedNoteId) => {
+                const task = await createSupabaseTask({ title, priority, linked_note_id: linkedNoteId });
+                return !!task;
+              }}
+              onAppendToNote={async (noteId, content) => {
                 const supabaseNote = supabaseNotes.find(n => n.id === noteId);
-                if (supabaseNote) {
-                  setActiveNote(supabaseNote);
-                  setActiveView('notes');
-                  setNoteMode('view');
-                }
+                if (!supabaseNote) return false;
+                const updated = await updateSupabaseNote(noteId, {
+                  content: `${supabaseNote.content.trimEnd()}\n\n${content}`
+                });
+                return !!updated;
               }}
             />
           </div>
         )}
       </main>
 
+      {sharingNote && (
+        <ShareNoteDialog
+          noteTitle={sharingNote.title}
+          shares={shares.filter(share => share.noteId === sharingNote.id)}
+          isOwner={isOwnNote(sharingNote)}
+          open
+          onOpenChange={(open) => !open && setSharingNoteId(null)}
+          onShare={(email) => shareNote(sharingNote.id, email)}
+          onRemove={handleRemoveShare}
+        />
+      )}
+
+      <NoteConflictDialog
+        conflict={noteConflict}
+        onKeepMine={handleKeepMine}
+        onUseTheirs={handleUseTheirs}
+      />
+
+      <RenameLinksDialog
+        rename={pendingLinkRename}
+        onConfirm={(rename) => {
+          setPendingLinkRename(null);
+          renameNoteLinks(rename.noteId, rename.oldTitle, rename.newTitle);
+        }}
+        onDismiss={() => setPendingLinkRename(null)}
+      />
+
       <CommandPalette
         isOpen={showCommandPalette}
         onClose={() => setShowCommandPalette(false)}
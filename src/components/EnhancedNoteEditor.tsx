@@ -19,9 +19,15 @@ import {
   Edit3,
   Terminal,
   Plus,
-  ArrowLeft
+  ArrowLeft,
+  AlertTriangle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { RelatedNotesPanel } from './RelatedNotesPanel';
+import { CollaboratorAvatars } from './CollaboratorAvatars';
+import { RemoteCursors } from './RemoteCursors';
+import { useCollaborativeNote } from '@/hooks/useCollaborativeNote';
+import { completeWikiLink, findOpenWikiLink, getWikiLinkSuggestions, LinkableNote } from '@/lib/wikiLinks';
 
 interface Note {
   id: string;
@@ -39,6 +45,14 @@ interface EnhancedNoteEditorProps {
   linkedTasks?: Array<{id: string; title: string; completed: boolean; priority: 'low' | 'medium' | 'high'}>;
   onBack?: () => void;
   onSwitchToView?: () => void;
+  // Shows the related notes panel when set
+  onOpenNote?: (noteId: string, passage?: { start: number; end: number }) => void;
+  // Notes offered when typing a [[link]]
+  linkableNotes?: LinkableNote[];
+  // A newer version of this note was saved in another tab or device
+  changedElsewhere?: boolean;
+  // Shared with other people: the content is co-edited live and saved as you type
+  collaborative?: boolean;
 }
 
 interface CodeBlockData {
@@ -49,9 +63,9 @@ interface CodeBlockData {
   endLine: number;
 }
 
-export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, onNoteUpdate, onToggleTask, linkedTasks = [], onBack, onSwitchToView }) => {
+export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, onNoteUpdate, onToggleTask, linkedTasks = [], onBack, onSwitchToView, onOpenNote, linkableNotes = [], changedElsewhere = false, collaborative = false }) => {
   const [title, setTitle] = useState('');
-  const [content, setContent] = useState('');
+  const [draftContent, setDraftContent] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState('');
   const [isPreview, setIsPreview] = useState(false);
@@ -60,24 +74,34 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
   const [showTaskInput, setShowTaskInput] = useState(false);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<'low' | 'medium' | 'high'>('medium');
+  const [contentCursor, setContentCursor] = useState<number | null>(null);
   const contentRef = useRef<HTMLTextAreaElement>(null);
   const titleRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const collab = useCollaborativeNote(collaborative && note ? note.id : null, contentRef);
+  // Shared notes edit the live document instead of a local draft
+  const content = collab.active ? collab.text : draftContent;
+  const setContent = collab.active ? collab.setText : setDraftContent;
 
   useEffect(() => {
     if (note) {
       setTitle(note.title);
-      setContent(note.content);
+      setDraftContent(note.content);
       setTags(note.tags);
       extractCodeBlocks(note.content);
     } else {
       setTitle('');
-      setContent('');
+      setDraftContent('');
       setTags([]);
       setCodeBlocks([]);
     }
   }, [note]);
 
+  // Others' edits change the content without going through onChange
+  useEffect(() => {
+    if (collab.active) extractCodeBlocks(collab.text);
+  }, [collab.active, collab.text]);
+
   const extractCodeBlocks = (text: string) => {
     const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
     const blocks: CodeBlockData[] = [];
@@ -103,8 +127,11 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
     setCodeBlocks(blocks);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!note) return;
+
+    // Write out the latest co-edited content before the note is reloaded
+    if (collab.active) await collab.flush();
     
     onNoteUpdate({
       ...note,
@@ -284,6 +311,27 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
     }
   };
 
+  // Completions for a [[link]] being typed at the cursor
+  const openLink = contentCursor !== null ? findOpenWikiLink(content, contentCursor) : null;
+  const linkSuggestions = openLink ? getWikiLinkSuggestions(openLink.query, linkableNotes, note?.id) : [];
+
+  const trackContentCursor = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    setContentCursor(e.currentTarget.selectionStart);
+    if (collab.active) collab.setCursor(e.currentTarget.selectionStart, e.currentTarget.selectionEnd);
+  };
+
+  const insertWikiLink = (linkTitle: string) => {
+    if (!openLink || contentCursor === null) return;
+    const completed = completeWikiLink(content, openLink, contentCursor, linkTitle);
+    setContent(completed.value);
+    extractCodeBlocks(completed.value);
+    setContentCursor(completed.cursor);
+    requestAnimationFrame(() => {
+      contentRef.current?.focus();
+      contentRef.current?.setSelectionRange(completed.cursor, completed.cursor);
+    });
+  };
+
   // Keyboard shortcuts for editor
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -349,6 +397,12 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
             </Button>
           </div>
         )}
+        {changedElsewhere && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            This note was changed in another tab or device. Saving will let you choose which version to keep.
+          </div>
+        )}
         <div className="flex items-center justify-between mb-4">
           <Input
             ref={titleRef}
@@ -359,6 +413,9 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
             className="text-lg font-semibold bg-transparent border-none p-0 focus-visible:ring-0 flex-1"
           />
           <div className="flex items-center gap-2">
+            {collab.active && (
+              <CollaboratorAvatars collaborators={collab.collaborators} status={collab.status} className="mr-2" />
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -470,100 +527,152 @@ export const EnhancedNoteEditor: React.FC<EnhancedNoteEditorProps> = ({ note, on
       )}
 
       {/* Content */}
-      <div className="flex-1 p-4 overflow-hidden">
-        {isPreview ? (
-          <div className="h-full overflow-auto space-y-4">
-            <style dangerouslySetInnerHTML={{
-              __html: `
-                .code-preview-block {
-                  margin: 1rem 0;
-                  border-radius: 0.5rem;
-                  border: 1px solid hsl(var(--border));
-                  overflow: hidden;
-                  background: hsl(var(--code-bg));
-                }
-                .code-preview-header {
-                  padding: 0.5rem 1rem;
-                  background: hsl(var(--muted));
-                  font-size: 0.75rem;
-                  font-weight: 500;
-                  color: hsl(var(--muted-foreground));
-                }
-                .code-preview-block pre {
-                  margin: 0;
-                  padding: 1rem;
-                  background: transparent;
-                  overflow-x: auto;
-                }
-                .code-preview-block code {
-                  font-family: 'JetBrains Mono', monospace;
-                  font-size: 0.875rem;
-                  color: hsl(var(--foreground));
-                }
-                .inline-code {
-                  background: hsl(var(--muted));
-                  padding: 0.125rem 0.25rem;
-                  border-radius: 0.25rem;
-                  font-family: 'JetBrains Mono', monospace;
-                  font-size: 0.875rem;
-                }
-              `
-            }} />
-            
-            {/* Render code blocks with enhanced editor */}
-            {codeBlocks.length > 0 ? (
-              <div className="space-y-6">
-                {content.split(/```\w*\n[\s\S]*?```/).map((textPart, index) => (
-                  <div key={index}>
-                    {textPart && (
-                      <div 
-                        className="prose prose-invert max-w-none"
-                        dangerouslySetInnerHTML={{ 
-                          __html: renderPreview(textPart.replace(/```\w*\n[\s\S]*?```/g, ''))
-                        }}
-                      />
-                    )}
-                    {codeBlocks[index] && (
-                      <CodeBlock
-                        code={codeBlocks[index].code}
-                        language={codeBlocks[index].language}
-                        onCodeChange={(newCode) => 
-                          updateCodeBlock(codeBlocks[index].id, newCode, codeBlocks[index].language)
-                        }
-                        onLanguageChange={(newLanguage) => 
-                          updateCodeBlock(codeBlocks[index].id, codeBlocks[index].code, newLanguage)
-                        }
-                        isEditing={selectedCodeBlock === codeBlocks[index].id}
-                        onToggleEdit={() => 
-                          setSelectedCodeBlock(
-                            selectedCodeBlock === codeBlocks[index].id 
-                              ? null 
-                              : codeBlocks[index].id
-                          )
-                        }
-                      />
-                    )}
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div 
-                className="prose prose-invert max-w-none h-full overflow-auto"
-                dangerouslySetInnerHTML={{ __html: renderPreview(content) }}
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 p-4 overflow-hidden">
+          {isPreview ? (
+            <div className="h-full overflow-auto space-y-4">
+              <style dangerouslySetInnerHTML={{
+                __html: `
+                  .code-preview-block {
+                    margin: 1rem 0;
+                    border-radius: 0.5rem;
+                    border: 1px solid hsl(var(--border));
+                    overflow: hidden;
+                    background: hsl(var(--code-bg));
+                  }
+                  .code-preview-header {
+                    padding: 0.5rem 1rem;
+                    background: hsl(var(--muted));
+                    font-size: 0.75rem;
+                    font-weight: 500;
+                    color: hsl(var(--muted-foreground));
+                  }
+                  .code-preview-block pre {
+                    margin: 0;
+                    padding: 1rem;
+                    background: transparent;
+                    overflow-x: auto;
+                  }
+                  .code-preview-block code {
+                    font-family: 'JetBrains Mono', monospace;
+                    font-size: 0.875rem;
+                    color: hsl(var(--foreground));
+                  }
+                  .inline-code {
+                    background: hsl(var(--muted));
+                    padding: 0.125rem 0.25rem;
+                    border-radius: 0.25rem;
+                    font-family: 'JetBrains Mono', monospace;
+                    font-size: 0.875rem;
+                  }
+                `
+              }} />
+              
+              {/* Render code blocks with enhanced editor */}
+              {codeBlocks.length > 0 ? (
+                <div className="space-y-6">
+                  {content.split(/```\w*\n[\s\S]*?```/).map((textPart, index) => (
+                    <div key={index}>
+                      {textPart && (
+                        <div 
+                          className="prose prose-invert max-w-none"
+                          dangerouslySetInnerHTML={{ 
+                            __html: renderPreview(textPart.replace(/```\w*\n[\s\S]*?```/g, ''))
+                          }}
+                        />
+                      )}
+                      {codeBlocks[index] && (
+                        <CodeBlock
+                          code={codeBlocks[index].code}
+                          language={codeBlocks[index].language}
+                          onCodeChange={(newCode) => 
+                            updateCodeBlock(codeBlocks[index].id, newCode, codeBlocks[index].language)
+                          }
+                          onLanguageChange={(newLanguage) => 
+                            updateCodeBlock(codeBlocks[index].id, codeBlocks[index].code, newLanguage)
+                          }
+                          isEditing={selectedCodeBlock === codeBlocks[index].id}
+                          onToggleEdit={() => 
+                            setSelectedCodeBlock(
+                              selectedCodeBlock === codeBlocks[index].id 
+                                ? null 
+                                : codeBlocks[index].id
+                            )
+                          }
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div 
+                  className="prose prose-invert max-w-none h-full overflow-auto"
+                  dangerouslySetInnerHTML={{ __html: renderPreview(content) }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="h-full flex flex-col relative">
+              {linkSuggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 mb-2">
+                  <span className="text-xs text-muted-foreground mr-1">Link to</span>
+                  {linkSuggestions.map((suggestion, index) => (
+                    <button
+                      key={suggestion.id}
+                      type="button"
+                      // Keep focus in the editor so it doesn't save and close
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => insertWikiLink(suggestion.title)}
+                      className={cn(
+                        'px-2 py-0.5 rounded-md border border-border text-xs transition-fast hover:bg-accent hover:text-accent-foreground',
+                        index === 0 && 'border-primary/50'
+                      )}
+                    >
+                      {suggestion.title}
+                    </button>
+                  ))}
+                  <span className="text-xs text-muted-foreground ml-1">Tab to complete</span>
+                </div>
+              )}
+              <Textarea
+                ref={contentRef}
+                value={content}
+                onChange={(e) => {
+                  setContent(e.target.value);
+                  extractCodeBlocks(e.target.value);
+                  trackContentCursor(e);
+                }}
+                onSelect={trackContentCursor}
+                onKeyDown={(e) => {
+                  if (e.key === 'Tab' && !e.shiftKey && linkSuggestions.length > 0) {
+                    e.preventDefault();
+                    insertWikiLink(linkSuggestions[0].title);
+                  }
+                }}
+                onBlur={() => {
+                  setContentCursor(null);
+                  if (collab.active) collab.setCursor(null);
+                  handleSave();
+                }}
+                readOnly={collab.active && !collab.ready}
+                placeholder={collab.active && !collab.ready
+                  ? 'Joining the shared note...'
+                  : 'Start writing your note... Use ``` for code blocks and [[Note Title]] to link other notes.'}
+                className="flex-1 resize-none border-none p-0 focus-visible:ring-0 bg-transparent font-mono text-sm leading-relaxed"
               />
-            )}
-          </div>
-        ) : (
-          <Textarea
-            ref={contentRef}
-            value={content}
-            onChange={(e) => {
-              setContent(e.target.value);
-              extractCodeBlocks(e.target.value);
-            }}
-            onBlur={handleSave}
-            placeholder="Start writing your note... Use ``` for code blocks with syntax highlighting and error detection."
-            className="h-full resize-none border-none p-0 focus-visible:ring-0 bg-transparent font-mono text-sm leading-relaxed"
+              {collab.active && (
+                <RemoteCursors textareaRef={contentRef} value={content} collaborators={collab.collaborators} />
+              )}
+            </div>
+          )}
+        </div>
+
+        {onOpenNote && note && (
+          <RelatedNotesPanel
+            noteId={note.id}
+            version={note.updatedAt.getTime()}
+            onOpenNote={onOpenNote}
+            className="hidden xl:flex"
           />
         )}
       </div>
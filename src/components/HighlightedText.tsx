@@ -0,0 +1,26 @@
+import React from 'react';
+import { splitHighlights } from '@/lib/noteSearch';
+import { cn } from '@/lib/utils';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+  markClassName?: string;
+}
+
+// Renders a search_notes headline with its matched terms marked
+export function HighlightedText({ text, className, markClassName }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {splitHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className={cn('bg-primary/20 text-foreground rounded-sm px-0.5', markClassName)}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+}
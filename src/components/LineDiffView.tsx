@@ -0,0 +1,37 @@
+import React from 'react';
+import { DiffLine } from '@/lib/lineDiff';
+import { cn } from '@/lib/utils';
+
+interface LineDiffViewProps {
+  lines: DiffLine[];
+  className?: string;
+}
+
+// Unified line diff with old and new line numbers
+export function LineDiffView({ lines, className }: LineDiffViewProps) {
+  return (
+    <pre className={cn('py-2 font-mono text-xs leading-relaxed', className)}>
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'flex',
+            line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-300',
+            line.type === 'removed' && 'bg-destructive/10 text-destructive'
+          )}
+        >
+          <span className="w-10 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">
+            {line.oldLine ?? ''}
+          </span>
+          <span className="w-10 flex-shrink-0 text-right pr-2 text-muted-foreground select-none">
+            {line.newLine ?? ''}
+          </span>
+          <span className="w-4 flex-shrink-0 select-none">
+            {line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}
+          </span>
+          <span className="whitespace-pre-wrap break-all pr-3">{line.text}</span>
+        </div>
+      ))}
+    </pre>
+  );
+}
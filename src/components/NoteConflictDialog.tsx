@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Note } from '@/hooks/useNotes';
+import { diffLines, summarizeDiff } from '@/lib/lineDiff';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle } from 'lucide-react';
+import { LineDiffView } from './LineDiffView';
+
+export interface NoteConflict {
+  noteId: string;
+  // The edits that could not be saved
+  local: Pick<Note, 'title' | 'content' | 'tags'>;
+  // The note as saved elsewhere, or null if it was deleted there
+  remote: Note | null;
+}
+
+interface NoteConflictDialogProps {
+  conflict: NoteConflict | null;
+  // Overwrite the other version (or recreate the note if it was deleted)
+  onKeepMine: (conflict: NoteConflict) => void;
+  // Drop these edits and show the other version
+  onUseTheirs: (conflict: NoteConflict) => void;
+}
+
+// Shown when a save finds the note was changed in another tab or device since
+// it was opened. Either choice is recoverable from the note's history.
+export function NoteConflictDialog({ conflict, onKeepMine, onUseTheirs }: NoteConflictDialogProps) {
+  const diff = useMemo(
+    () => (conflict?.remote ? diffLines(conflict.remote.content || '', conflict.local.content) : []),
+    [conflict]
+  );
+  const summary = summarizeDiff(diff);
+  const remote = conflict?.remote;
+
+  return (
+    // Only a choice closes the dialog, so the edits are never dropped silently
+    <Dialog open={!!conflict}>
+      <DialogContent className="max-w-3xl [&>button]:hidden" onEscapeKeyDown={(e) => e.preventDefault()} onPointerDownOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            {remote ? 'This note changed elsewhere' : 'This note was deleted elsewhere'}
+          </DialogTitle>
+          <DialogDescription>
+            {remote
+              ? `It was saved ${formatDistanceToNow(new Date(remote.updated_at), { addSuffix: true })} in another tab or device after you started editing. Keep your version or switch to theirs; the one you replace stays in the note's history.`
+              : 'It was moved to the trash or deleted in another tab or device. Save your edits as a new note or discard them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {remote && (
+          <div className="space-y-2">
+            {remote.title !== conflict.local.title && (
+              <div className="text-xs text-muted-foreground">
+                Title: <span className="line-through">{remote.title || 'Untitled'}</span> → {conflict.local.title || 'Untitled'}
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Their version → yours:{' '}
+              <span className="text-green-600 dark:text-green-400">+{summary.added}</span>{' '}
+              <span className="text-destructive">−{summary.removed}</span>
+            </div>
+            <ScrollArea className="h-72 rounded-md border border-border">
+              {summary.added === 0 && summary.removed === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">The content is the same in both versions.</p>
+              ) : (
+                <LineDiffView lines={diff} />
+              )}
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => conflict && onUseTheirs(conflict)}>
+            {remote ? 'Use theirs' : 'Discard my edits'}
+          </Button>
+          <Button onClick={() => conflict && onKeepMine(conflict)}>
+            {remote ? 'Keep mine' : 'Save as new note'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
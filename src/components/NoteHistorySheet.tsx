@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useNoteRevisions, NoteRevision } from '@/hooks/useNoteRevisions';
+import { useToast } from '@/hooks/use-toast';
+import { diffLines, summarizeDiff } from '@/lib/lineDiff';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { LineDiffView } from './LineDiffView';
+import { cn } from '@/lib/utils';
+
+interface HistoryNote {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  updatedAt: Date;
+}
+
+interface NoteHistorySheetProps {
+  note: HistoryNote;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Saves the revision as the note's current version; resolves false on failure
+  onRestore: (revision: NoteRevision) => Promise<boolean>;
+}
+
+const CURRENT = 'current';
+
+interface Version {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  savedAt: string;
+}
+
+const formatSavedAt = (savedAt: string) => format(new Date(savedAt), 'MMM d, yyyy HH:mm');
+
+// Lists the saved versions of a note, diffs any two of them line by line and
+// restores an older one. Restoring is itself a save, so the version it
+// replaces stays in the history.
+export function NoteHistorySheet({ note, open, onOpenChange, onRestore }: NoteHistorySheetProps) {
+  const { revisions, loading, error } = useNoteRevisions(note.id, note.updatedAt.getTime(), open);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+
+  const versions = useMemo<Version[]>(() => [
+    {
+      id: CURRENT,
+      title: note.title,
+      content: note.content,
+      tags: note.tags,
+      savedAt: note.updatedAt.toISOString(),
+    },
+    ...revisions,
+  ], [note.title, note.content, note.tags, note.updatedAt, revisions]);
+
+  // Start on the most recent revision, compared with the current note
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId(revisions[0]?.id ?? null);
+    setCompareId(CURRENT);
+  }, [open, note.id, revisions]);
+
+  const selected = versions.find(version => version.id === selectedId) ?? null;
+  const compared = versions.find(version => version.id === compareId) ?? versions[0];
+
+  // Show changes going forward in time: older version on the left
+  const [from, to] = selected && compared && new Date(selected.savedAt) > new Date(compared.savedAt)
+    ? [compared, selected]
+    : [selected, compared];
+
+  const diff = useMemo(
+    () => (from && to ? diffLines(from.content, to.content) : []),
+    [from, to]
+  );
+  const summary = summarizeDiff(diff);
+
+  const handleRestore = async () => {
+    const revision = revisions.find(item => item.id === selectedId);
+    if (!revision) return;
+
+    setRestoring(true);
+    const restored = await onRestore(revision);
+    setRestoring(false);
+
+    if (restored) {
+      toast({
+        title: "Version restored",
+        description: `Restored the version from ${formatSavedAt(revision.savedAt)}. The replaced version is kept in history.`,
+      });
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            History
+          </SheetTitle>
+          <SheetDescription>
+            Every save keeps the version it replaced. Pick a version to compare it with another and restore it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <ScrollArea className="w-56 flex-shrink-0 border-r border-border pr-3">
+            <div className="space-y-1">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  className={cn(
+                    'w-full text-left rounded-md px-3 py-2 text-sm transition-fast hover:bg-accent/10',
+                    version.id === selectedId && 'bg-accent/20 text-foreground'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">
+                      {version.id === CURRENT ? 'Current' : formatSavedAt(version.savedAt)}
+                    </span>
+                    {version.id === compareId && (
+                      <Badge variant="outline" className="text-[10px]">compare</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {formatDistanceToNow(new Date(version.savedAt), { addSuffix: true })} · {version.title || 'Untitled'}
+                  </div>
+                </button>
+              ))}
+
+              {loading && (
+                <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading history...
+                </div>
+              )}
+              {error && <p className="px-3 py-2 text-xs text-destructive">{error}</p>}
+              {!loading && !error && revisions.length === 0 && (
+                <p className="px-3 py-2 text-xs text-muted-foreground">
+                  No earlier versions yet. One is kept each time the note is saved with changes.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+
+          <div className="flex-1 flex flex-col min-w-0 gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">Compare with</span>
+              <Select value={compareId} onValueChange={setCompareId}>
+                <SelectTrigger className="w-52 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(version => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {version.id === CURRENT ? 'Current' : formatSavedAt(version.savedAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">
+                <span className="text-green-600 dark:text-green-400">+{summary.added}</span>{' '}
+                <span className="text-destructive">−{summary.removed}</span>
+              </span>
+              <Button
+                size="sm"
+                className="ml-auto"
+                onClick={handleRestore}
+                disabled={!selected || selected.id === CURRENT || restoring}
+              >
+                {restoring
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <RotateCcw className="h-4 w-4 mr-2" />}
+                Restore this version
+              </Button>
+            </div>
+
+            {from && to && from.title !== to.title && (
+              <div className="text-xs text-muted-foreground">
+                Title: <span className="line-through">{from.title || 'Untitled'}</span> → {to.title || 'Untitled'}
+              </div>
+            )}
+            {from && to && from.tags.join(',') !== to.tags.join(',') && (
+              <div className="text-xs text-muted-foreground">
+                Tags: {from.tags.join(', ') || 'none'} → {to.tags.join(', ') || 'none'}
+              </div>
+            )}
+
+            <ScrollArea className="flex-1 rounded-md border border-border">
+              {!selected ? (
+                <p className="p-4 text-sm text-muted-foreground">Select a version to see what changed.</p>
+              ) : from === to ? (
+                <p className="p-4 text-sm text-muted-foreground">Pick a different version to compare with.</p>
+              ) : summary.added === 0 && summary.removed === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">The content of these versions is identical.</p>
+              ) : (
+                <LineDiffView lines={diff} />
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
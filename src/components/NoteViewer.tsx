@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -21,9 +21,16 @@ import {
   Tag,
   ArrowLeft,
   FileText,
-  Trash2
+  Trash2,
+  History,
+  Users
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { RelatedNotesPanel } from './RelatedNotesPanel';
+import { NoteHistorySheet } from './NoteHistorySheet';
+import { BacklinksSection } from './BacklinksSection';
+import { LinkableNote, resolveWikiLink, splitWikiLinks } from '@/lib/wikiLinks';
+import { NoteRevision } from '@/hooks/useNoteRevisions';
 
 interface Note {
   id: string;
@@ -36,12 +43,36 @@ interface Note {
 
 interface NoteViewerProps {
   note: Note;
+  // Character range to scroll to and highlight, e.g. a cited chat passage
+  highlight?: { start: number; end: number };
   onEdit: () => void;
   onBack: () => void;
   onDelete?: (noteId: string) => void;
+  // Shows the related notes panel and backlinks, and makes [[links]] clickable, when set
+  onOpenNote?: (noteId: string, passage?: { start: number; end: number }) => void;
+  // Notes that [[links]] can resolve to
+  linkableNotes?: LinkableNote[];
+  // Shows the history button when set
+  onRestoreRevision?: (revision: NoteRevision) => Promise<boolean>;
+  // Shows the share button when set
+  onShare?: () => void;
+  // Co-edited with other people
+  shared?: boolean;
 }
 
-export function NoteViewer({ note, onEdit, onBack, onDelete }: NoteViewerProps) {
+export function NoteViewer({ note, highlight, onEdit, onBack, onDelete, onOpenNote, linkableNotes = [], onRestoreRevision, onShare, shared = false }: NoteViewerProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const highlightStart = highlight?.start;
+  const highlightEnd = highlight?.end;
+
+  useEffect(() => {
+    if (highlightStart === undefined) return;
+    const target = contentRef.current?.querySelector('[data-highlighted]');
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightStart, highlightEnd, note.id]);
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
       year: 'numeric',
@@ -56,48 +87,91 @@ export function NoteViewer({ note, onEdit, onBack, onDelete }: NoteViewerProps)
     if (!content) return 'No content';
     
     // Simple markdown-like formatting for display
+    let offset = 0;
     return content
       .split('\n')
       .map((line, index) => {
-        // Headers
-        if (line.startsWith('# ')) {
-          return <h1 key={index} className="text-2xl font-bold mb-4 mt-6 first:mt-0">{line.slice(2)}</h1>;
-        }
-        if (line.startsWith('## ')) {
-          return <h2 key={index} className="text-xl font-semibold mb-3 mt-5 first:mt-0">{line.slice(3)}</h2>;
-        }
-        if (line.startsWith('### ')) {
-          return <h3 key={index} className="text-lg font-medium mb-2 mt-4 first:mt-0">{line.slice(4)}</h3>;
-        }
-        
-        // Code blocks
-        if (line.startsWith('```')) {
-          return <div key={index} className="bg-muted p-3 rounded-md font-mono text-sm my-3">{line}</div>;
-        }
-        
-        // Lists
-        if (line.match(/^[\s]*[-*+]\s/)) {
-          return <li key={index} className="ml-4 mb-1">{line.replace(/^[\s]*[-*+]\s/, '')}</li>;
-        }
-        if (line.match(/^[\s]*\d+\.\s/)) {
-          return <li key={index} className="ml-4 mb-1 list-decimal">{line.replace(/^[\s]*\d+\.\s/, '')}</li>;
-        }
-        
-        // Quotes
-        if (line.startsWith('> ')) {
-          return <blockquote key={index} className="border-l-4 border-muted pl-4 italic my-3 text-muted-foreground">{line.slice(2)}</blockquote>;
-        }
-        
-        // Empty lines
-        if (line.trim() === '') {
-          return <br key={index} />;
-        }
-        
-        // Regular paragraphs
-        return <p key={index} className="mb-3 leading-relaxed">{line}</p>;
+        const lineStart = offset;
+        offset += line.length + 1;
+        const element = formatLine(line, index);
+        const highlighted = highlight && lineStart < highlight.end && lineStart + line.length >= highlight.start;
+        if (!highlighted) return element;
+
+        return React.cloneElement(element, {
+          'data-highlighted': true,
+          className: cn(element.props.className, 'bg-yellow-200/60 dark:bg-yellow-500/20 rounded-sm scroll-mt-24'),
+        });
       });
   };
 
+  // Turns [[Note Title]] into a link to that note; titles no note has yet stay as text
+  const renderInline = (text: string): React.ReactNode => {
+    const segments = splitWikiLinks(text);
+    if (!onOpenNote || !segments.some(segment => segment.type === 'link')) return text;
+
+    return segments.map((segment, index) => {
+      if (segment.type === 'text') return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+
+      const target = resolveWikiLink(segment.title, linkableNotes);
+      if (!target) {
+        return (
+          <span key={index} title="No note has this title yet" className="text-muted-foreground border-b border-dashed border-muted-foreground">
+            {segment.title}
+          </span>
+        );
+      }
+      return (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onOpenNote(target.id)}
+          className="text-primary font-medium underline-offset-2 hover:underline"
+        >
+          {segment.title}
+        </button>
+      );
+    });
+  };
+
+  const formatLine = (line: string, index: number) => {
+    // Headers
+    if (line.startsWith('# ')) {
+      return <h1 key={index} className="text-2xl font-bold mb-4 mt-6 first:mt-0">{renderInline(line.slice(2))}</h1>;
+    }
+    if (line.startsWith('## ')) {
+      return <h2 key={index} className="text-xl font-semibold mb-3 mt-5 first:mt-0">{renderInline(line.slice(3))}</h2>;
+    }
+    if (line.startsWith('### ')) {
+      return <h3 key={index} className="text-lg font-medium mb-2 mt-4 first:mt-0">{renderInline(line.slice(4))}</h3>;
+    }
+    
+    // Code blocks
+    if (line.startsWith('```')) {
+      return <div key={index} className="bg-muted p-3 rounded-md font-mono text-sm my-3">{line}</div>;
+    }
+    
+    // Lists
+    if (line.match(/^[\s]*[-*+]\s/)) {
+      return <li key={index} className="ml-4 mb-1">{renderInline(line.replace(/^[\s]*[-*+]\s/, ''))}</li>;
+    }
+    if (line.match(/^[\s]*\d+\.\s/)) {
+      return <li key={index} className="ml-4 mb-1 list-decimal">{renderInline(line.replace(/^[\s]*\d+\.\s/, ''))}</li>;
+    }
+    
+    // Quotes
+    if (line.startsWith('> ')) {
+      return <blockquote key={index} className="border-l-4 border-muted pl-4 italic my-3 text-muted-foreground">{renderInline(line.slice(2))}</blockquote>;
+    }
+    
+    // Empty lines
+    if (line.trim() === '') {
+      return <br key={index} />;
+    }
+    
+    // Regular paragraphs
+    return <p key={index} className="mb-3 leading-relaxed">{renderInline(line)}</p>;
+  };
+
   return (
     <div className="flex-1 bg-background">
       {/* Header */}
@@ -119,9 +193,27 @@ export function NoteViewer({ note, onEdit, onBack, onDelete }: NoteViewerProps)
                 <h1 className="text-xl font-semibold">
                   {note.title || 'Untitled Note'}
                 </h1>
+                {shared && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Users className="h-3 w-3 mr-1" />
+                    Shared
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              {onShare && (
+                <Button variant="outline" size="sm" onClick={onShare}>
+                  <Users className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              )}
+              {onRestoreRevision && (
+                <Button variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </Button>
+              )}
               <Button onClick={onEdit} className="bg-primary hover:bg-primary/90">
                 <Edit3 className="h-4 w-4 mr-2" />
                 Edit Note
@@ -138,7 +230,7 @@ export function NoteViewer({ note, onEdit, onBack, onDelete }: NoteViewerProps)
                     <AlertDialogHeader>
                       <AlertDialogTitle>Delete Note</AlertDialogTitle>
                       <AlertDialogDescription>
-                        Are you sure you want to delete "{note.title || 'Untitled Note'}"? This action cannot be undone.
+                        Move "{note.title || 'Untitled Note'}" to the Trash? You can restore it from there until it is purged.
                       </AlertDialogDescription>
                     </AlertDialogHeader>
                     <AlertDialogFooter>
@@ -158,52 +250,80 @@ export function NoteViewer({ note, onEdit, onBack, onDelete }: NoteViewerProps)
         </div>
       </div>
 
-      <ScrollArea className="flex-1">
-        <div className="px-6 py-6 max-w-4xl mx-auto">
-          {/* Note metadata */}
-          <div className="mb-6 p-4 bg-muted/30 rounded-lg">
-            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
-              <div className="flex items-center space-x-2">
-                <Calendar className="h-4 w-4" />
-                <span>Created {formatDate(note.createdAt)}</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Clock className="h-4 w-4" />
-                <span>Updated {formatDate(note.updatedAt)}</span>
-              </div>
-              {note.tags.length > 0 && (
+      <div className="flex-1 flex min-h-0">
+        <ScrollArea className="flex-1">
+          <div className="px-6 py-6 max-w-4xl mx-auto">
+            {/* Note metadata */}
+            <div className="mb-6 p-4 bg-muted/30 rounded-lg">
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                <div className="flex items-center space-x-2">
+                  <Calendar className="h-4 w-4" />
+                  <span>Created {formatDate(note.createdAt)}</span>
+                </div>
                 <div className="flex items-center space-x-2">
-                  <Tag className="h-4 w-4" />
-                  <div className="flex flex-wrap gap-1">
-                    {note.tags.map((tag) => (
-                      <Badge key={tag} variant="secondary" className="text-xs">
-                        {tag}
-                      </Badge>
-                    ))}
+                  <Clock className="h-4 w-4" />
+                  <span>Updated {formatDate(note.updatedAt)}</span>
+                </div>
+                {note.tags.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Tag className="h-4 w-4" />
+                    <div className="flex flex-wrap gap-1">
+                      {note.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary" className="text-xs">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
                   </div>
+                )}
+              </div>
+            </div>
+
+            <Separator className="mb-6" />
+
+            {/* Note content */}
+            <div ref={contentRef} className="prose prose-neutral dark:prose-invert max-w-none">
+              {note.content ? (
+                <div className="text-foreground leading-relaxed">
+                  {formatContent(note.content)}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p className="text-lg font-medium mb-2">This note is empty</p>
+                  <p className="text-sm">Click "Edit Note" to add content</p>
                 </div>
               )}
             </div>
-          </div>
-
-          <Separator className="mb-6" />
 
-          {/* Note content */}
-          <div className="prose prose-neutral dark:prose-invert max-w-none">
-            {note.content ? (
-              <div className="text-foreground leading-relaxed">
-                {formatContent(note.content)}
-              </div>
-            ) : (
-              <div className="text-center py-8 text-muted-foreground">
-                <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                <p className="text-lg font-medium mb-2">This note is empty</p>
-                <p className="text-sm">Click "Edit Note" to add content</p>
-              </div>
+            {onOpenNote && (
+              <BacklinksSection
+                noteId={note.id}
+                version={note.updatedAt.getTime()}
+                onOpenNote={onOpenNote}
+              />
             )}
           </div>
-        </div>
-      </ScrollArea>
+        </ScrollArea>
+
+        {onOpenNote && (
+          <RelatedNotesPanel
+            noteId={note.id}
+            version={note.updatedAt.getTime()}
+            onOpenNote={onOpenNote}
+            className="hidden xl:flex"
+          />
+        )}
+      </div>
+
+      {onRestoreRevision && (
+        <NoteHistorySheet
+          note={note}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          onRestore={onRestoreRevision}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
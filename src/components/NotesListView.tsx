@@ -1,7 +1,10 @@
 import React, { useState, useMemo } from 'react';
 import { useNotes, Note as BaseNote } from '@/hooks/useNotes';
+import { useNoteSearch } from '@/hooks/useNoteSearch';
+import { HighlightedText } from './HighlightedText';
+import { SearchQueryInput } from './SearchQueryInput';
+import { collectSearchFacets } from '@/lib/searchQuery';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -41,7 +44,9 @@ import { cn } from '@/lib/utils';
 const ITEMS_PER_PAGE = 12;
 
 interface NoteWithSearch extends BaseNote {
-  searchScore?: number;
+  searchRank?: number;
+  titleHighlight?: string;
+  snippet?: string;
 }
 
 interface NotesListViewProps {
@@ -56,6 +61,7 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
   const [sortBy, setSortBy] = useState<'updated' | 'created' | 'title' | 'relevance'>('updated');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [filterTag, setFilterTag] = useState<string>('all');
+  const { results: searchMatches, searching, error: searchError, queryErrors } = useNoteSearch(searchQuery, 200);
 
   // Extract all unique tags
   const allTags = useMemo(() => {
@@ -64,51 +70,19 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
     return Array.from(tagSet).sort();
   }, [notes]);
 
-  // Smart search with priority scoring
+  // Tag names and code languages for query autocomplete
+  const searchFacets = useMemo(() => collectSearchFacets(notes), [notes]);
+
+  // Ranked full-text matches from the server, in the shape of loaded notes
   const searchResults = useMemo((): NoteWithSearch[] => {
     if (!searchQuery.trim()) return notes;
 
-    const query = searchQuery.toLowerCase().trim();
-    
-    return notes.map(note => {
-      let score = 0;
-      
-      // Title matches (highest priority)
-      const titleMatch = note.title.toLowerCase().includes(query);
-      if (titleMatch) score += 10;
-      
-      // Exact title match (even higher)
-      if (note.title.toLowerCase() === query) score += 20;
-      
-      // Tag matches (high priority)
-      const tagMatches = note.tags.filter(tag => tag.toLowerCase().includes(query));
-      score += tagMatches.length * 5;
-      
-      // Exact tag match
-      const exactTagMatch = note.tags.some(tag => tag.toLowerCase() === query);
-      if (exactTagMatch) score += 10;
-      
-      // Content matches (lower priority but still relevant)
-      const contentWords = note.content.toLowerCase().split(/\s+/);
-      const queryWords = query.split(/\s+/);
-      
-      queryWords.forEach(queryWord => {
-        contentWords.forEach(word => {
-          if (word.includes(queryWord)) {
-            score += word === queryWord ? 3 : 1; // Exact word match vs partial
-          }
-        });
-      });
-      
-      // Only boost recent notes if they already have a match (score > 0)
-      if (score > 0) {
-        const daysSinceUpdate = (Date.now() - new Date(note.updated_at).getTime()) / (1000 * 60 * 60 * 24);
-        if (daysSinceUpdate < 7) score += 1;
-      }
-      
-      return { ...note, searchScore: score };
-    }).filter(note => note.searchScore && note.searchScore > 0);
-  }, [notes, searchQuery]);
+    const notesById = new Map(notes.map(note => [note.id, note]));
+    return searchMatches.flatMap(match => {
+      const note = notesById.get(match.id);
+      return note ? [{ ...note, searchRank: match.rank, titleHighlight: match.titleHighlight, snippet: match.snippet }] : [];
+    });
+  }, [notes, searchQuery, searchMatches]);
 
   // Filter by tag
   const filteredResults = useMemo(() => {
@@ -125,7 +99,7 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
       
       switch (sortBy) {
         case 'relevance':
-          comparison = (b.searchScore || 0) - (a.searchScore || 0);
+          comparison = (a.searchRank || 0) - (b.searchRank || 0);
           break;
         case 'title':
           comparison = a.title.localeCompare(b.title);
@@ -201,17 +175,19 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
         {/* Search and Filters */}
         <div className="mb-6 space-y-4">
           <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search notes by title, content, or tags..."
+            <Search className="absolute left-3 top-4 h-4 w-4 text-muted-foreground" />
+            <SearchQueryInput
+              placeholder='Search notes: words, "exact phrase", tag:, lang:, has:code, updated:>2025-01-01'
               value={searchQuery}
-              onChange={(e) => {
-                setSearchQuery(e.target.value);
+              onChange={(value) => {
+                setSearchQuery(value);
                 setCurrentPage(1);
-                if (e.target.value.trim()) {
+                if (value.trim()) {
                   setSortBy('relevance');
                 }
               }}
+              facets={searchFacets}
+              errors={queryErrors}
               className="pl-10 text-base h-12"
             />
           </div>
@@ -265,8 +241,14 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
 
         {/* Results Info */}
         <div className="mb-4 text-sm text-muted-foreground">
-          {searchQuery.trim() ? (
-            <>Showing {sortedResults.length} result{sortedResults.length !== 1 ? 's' : ''} for "{searchQuery}"</>
+          {searchError ? (
+            <span className="text-destructive">Search failed: {searchError}</span>
+          ) : queryErrors.length > 0 ? (
+            <>Fix the search query to see results</>
+          ) : searchQuery.trim() ? (
+            <>
+              {searching ? 'Searching' : 'Showing'} {sortedResults.length} result{sortedResults.length !== 1 ? 's' : ''} for "{searchQuery}"
+            </>
           ) : (
             <>Showing {sortedResults.length} note{sortedResults.length !== 1 ? 's' : ''}</>
           )}
@@ -306,14 +288,9 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
                       className="font-semibold text-base line-clamp-1 flex-1 cursor-pointer"
                       onClick={() => onNoteSelect(note)}
                     >
-                      {note.title || 'Untitled'}
+                      {note.titleHighlight ? <HighlightedText text={note.titleHighlight} /> : note.title || 'Untitled'}
                     </h3>
                     <div className="flex items-center space-x-1">
-                      {searchQuery.trim() && note.searchScore && note.searchScore > 0 && (
-                        <Badge variant="secondary" className="text-xs">
-                          {note.searchScore > 20 ? 'Exact' : note.searchScore > 10 ? 'High' : 'Match'}
-                        </Badge>
-                      )}
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
                           <Button 
@@ -343,7 +320,7 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Delete Note</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  Are you sure you want to delete "{note.title || 'Untitled Note'}"? This action cannot be undone.
+                                  Move "{note.title || 'Untitled Note'}" to the Trash? You can restore it from there until it is purged.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
@@ -380,7 +357,7 @@ export function NotesListView({ onNoteSelect, onNewNote }: NotesListViewProps) {
                   onClick={() => onNoteSelect(note)}
                 >
                   <p className="text-sm text-muted-foreground line-clamp-3 mb-3 min-h-[3.6rem]">
-                    {getContentPreview(note.content)}
+                    {note.snippet ? <HighlightedText text={note.snippet} /> : getContentPreview(note.content)}
                   </p>
                   {note.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1">
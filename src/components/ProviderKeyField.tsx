@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { ProviderKeyStatus } from '@/hooks/useProviderKeys';
+import { Eye, EyeOff, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ProviderKeyFieldProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  status?: ProviderKeyStatus;
+  onSave: (apiKey: string) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+// Write-only key input: a stored key is shown as a status line and can be
+// replaced or removed, but is never read back into the form
+export function ProviderKeyField({ id, label, placeholder, status, onSave, onDelete }: ProviderKeyFieldProps) {
+  const [value, setValue] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [showValue, setShowValue] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSave = async () => {
+    if (!value.trim()) return;
+
+    setSaving(true);
+    try {
+      await onSave(value.trim());
+      setValue('');
+      setEditing(false);
+      toast({
+        title: status ? "API key replaced" : "API key saved",
+        description: `Your ${label} is encrypted and stored securely.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving API key",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setSaving(true);
+    try {
+      await onDelete();
+      toast({
+        title: "API key removed",
+        description: `Your ${label} has been deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error removing API key",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+
+      {status && !editing ? (
+        <div className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+          <KeyRound className="h-4 w-4 text-success flex-shrink-0" />
+          <div className="flex-1 min-w-0 text-sm">
+            <span className="font-mono">{status.lastFour ? `••••${status.lastFour}` : 'Key set'}</span>
+            <span className="text-xs text-muted-foreground ml-2">
+              updated {formatDistanceToNow(new Date(status.updatedAt), { addSuffix: true })}
+            </span>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(true)} disabled={saving}>
+            <RefreshCw className="h-3 w-3 mr-1" />
+            Replace
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="ghost" size="sm" title="Remove" disabled={saving}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Remove API Key</AlertDialogTitle>
+                <AlertDialogDescription>
+                  AI features that use this key will stop working until you add a new one.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Remove
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Input
+              id={id}
+              type={showValue ? 'text' : 'password'}
+              placeholder={placeholder}
+              value={value}
+              autoComplete="off"
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                // Keep Enter from submitting the surrounding settings form
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              className="pr-10"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+              onClick={() => setShowValue(!showValue)}
+            >
+              {showValue ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+          </div>
+          <Button type="button" onClick={handleSave} disabled={saving || !value.trim()}>
+            {saving ? 'Saving...' : 'Save key'}
+          </Button>
+          {editing && (
+            <Button type="button" variant="ghost" onClick={() => { setEditing(false); setValue(''); }}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
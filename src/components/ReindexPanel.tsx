@@ -0,0 +1,121 @@
+import React from 'react';
+import { useReindexJob } from '@/hooks/useReindexJob';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Database, RefreshCw, Pause, Play, XCircle, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+export function ReindexPanel() {
+  const { job, progress, results, running, interrupted, runningElsewhere, error, startRebuild, resume, pause, cancel } = useReindexJob();
+
+  const processed = progress ? progress.done + progress.failed : 0;
+  const percent = progress && progress.total > 0 ? Math.round((processed / progress.total) * 100) : 0;
+  const failures = results.filter(result => result.status === 'failed');
+
+  return (
+    <Card className="shadow-lg mt-6">
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Database className="h-5 w-5 text-primary" />
+          <CardTitle>AI Index</CardTitle>
+        </div>
+        <CardDescription>
+          Re-embed every note so the chat assistant can find it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {interrupted && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              A re-index was interrupted with {progress?.pending ?? 0} notes left. Resume to finish it.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {job && progress && progress.total > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {processed} / {progress.total} notes
+                {progress.failed > 0 && <> • <span className="text-destructive">{progress.failed} failed</span></>}
+              </span>
+              <Badge variant={job.status === 'completed' ? 'secondary' : 'outline'} className="text-xs">
+                {running ? 'running' : job.status}
+              </Badge>
+            </div>
+            <Progress value={percent} />
+            <p className="text-xs text-muted-foreground">Model: {job.model}</p>
+          </div>
+        )}
+
+        {job && progress && progress.total === 0 && job.status === 'completed' && (
+          <p className="text-sm text-muted-foreground">All notes are already indexed.</p>
+        )}
+
+        {results.length > 0 && (
+          <ScrollArea className="h-40 rounded-md border border-border">
+            <div className="p-2 space-y-1">
+              {[...failures, ...results.filter(result => result.status === 'done')].map(result => (
+                <div key={result.noteId} className="flex items-start gap-2 text-xs py-1">
+                  {result.status === 'done' ? (
+                    <CheckCircle2 className="h-3 w-3 mt-0.5 text-success flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-3 w-3 mt-0.5 text-destructive flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">{result.title || 'Untitled'}</div>
+                    {result.error ? (
+                      <div className="text-destructive break-words">{result.error}</div>
+                    ) : (
+                      <div className="text-muted-foreground">{result.chunksProcessed} chunks</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex gap-2">
+          {running ? (
+            <Button variant="outline" className="flex-1" onClick={pause}>
+              <Pause className="h-4 w-4 mr-2" />
+              Pause
+            </Button>
+          ) : interrupted ? (
+            <Button className="flex-1" onClick={resume}>
+              <Play className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          ) : runningElsewhere ? (
+            <Button className="flex-1" disabled>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Re-indexing in the background
+            </Button>
+          ) : (
+            <Button className="flex-1" onClick={startRebuild}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Rebuild AI index
+            </Button>
+          )}
+          {job?.status === 'running' && (
+            <Button variant="ghost" onClick={cancel}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { useRelatedNotes } from '@/hooks/useRelatedNotes';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Network, RefreshCw, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RelatedNotesPanelProps {
+  noteId: string;
+  // Refetch when this changes, e.g. the note's last update time
+  version?: string | number;
+  // Opens a related note with its matching passage highlighted
+  onOpenNote: (noteId: string, passage?: { start: number; end: number }) => void;
+  className?: string;
+}
+
+export function RelatedNotesPanel({ noteId, version, onOpenNote, className }: RelatedNotesPanelProps) {
+  const { related, loading, error, refresh } = useRelatedNotes(noteId, version);
+
+  return (
+    <aside className={cn('w-72 flex-shrink-0 border-l border-border bg-card/30 flex flex-col', className)}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="flex items-center gap-2">
+          <Network className="h-4 w-4 text-primary" />
+          <h3 className="text-sm font-medium">Related notes</h3>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={refresh} disabled={loading} title="Refresh">
+          <RefreshCw className={cn('h-3 w-3', loading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-2">
+          {error && (
+            <p className="text-xs text-destructive">{error}</p>
+          )}
+
+          {!error && !loading && related.length === 0 && (
+            <p className="text-xs text-muted-foreground px-1">
+              Nothing similar yet. Related notes appear once this note and others have been indexed.
+            </p>
+          )}
+
+          {related.map(item => (
+            <button
+              key={item.noteId}
+              type="button"
+              onClick={() => onOpenNote(
+                item.noteId,
+                item.charStart !== null && item.charEnd !== null
+                  ? { start: item.charStart, end: item.charEnd }
+                  : undefined
+              )}
+              className="w-full text-left rounded-lg border border-border/50 p-3 transition-fast hover:border-primary/30 hover:bg-accent/10"
+            >
+              <div className="flex items-start justify-between gap-2 mb-1">
+                <div className="flex items-center gap-1.5 min-w-0">
+                  <FileText className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+                  <span className="text-sm font-medium truncate">{item.title || 'Untitled'}</span>
+                </div>
+                <Badge variant="secondary" className="text-xs flex-shrink-0" title="Similarity to this note">
+                  {Math.round(item.similarity * 100)}%
+                </Badge>
+              </div>
+              {item.headingPath.length > 0 && (
+                <div className="text-xs text-muted-foreground truncate mb-1">
+                  {item.headingPath.join(' › ')}
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground line-clamp-3">{item.snippet}</p>
+              {item.matchingChunks > 1 && (
+                <div className="text-[10px] text-muted-foreground mt-1">
+                  {item.matchingChunks} matching passages
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
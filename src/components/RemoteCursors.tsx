@@ -0,0 +1,139 @@
+import React, { useEffect, useLayoutEffect, useState, RefObject } from 'react';
+import { Collaborator } from '@/hooks/useCollaborativeNote';
+
+interface RemoteCursorsProps {
+  textareaRef: RefObject<HTMLTextAreaElement>;
+  value: string;
+  collaborators: Collaborator[];
+}
+
+// Styles that decide where text wraps, copied so the mirror lays out like the textarea
+const MIRRORED_STYLES = [
+  'boxSizing', 'width', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'letterSpacing', 'lineHeight',
+  'tabSize', 'textIndent', 'textTransform', 'wordSpacing',
+] as const;
+
+type MirrorStyle = Partial<Pick<CSSStyleDeclaration, typeof MIRRORED_STYLES[number]>>;
+
+interface Segment {
+  text: string;
+  // Collaborator whose selection covers this text
+  highlight?: Collaborator;
+  // Collaborators whose caret sits right after this text
+  carets: Collaborator[];
+}
+
+// Splits the text at every caret and selection edge
+function buildSegments(value: string, collaborators: Collaborator[]): Segment[] {
+  const placed = collaborators
+    .filter(collaborator => collaborator.cursor)
+    .map(collaborator => {
+      const { anchor, head } = collaborator.cursor!;
+      return {
+        collaborator,
+        head: Math.min(head, value.length),
+        from: Math.min(anchor, head, value.length),
+        to: Math.min(Math.max(anchor, head), value.length),
+      };
+    });
+
+  const boundaries = [...new Set([0, value.length, ...placed.flatMap(item => [item.from, item.to, item.head])])]
+    .sort((a, b) => a - b);
+  const caretsAt = (offset: number) => placed.filter(item => item.head === offset).map(item => item.collaborator);
+
+  const segments: Segment[] = [{ text: '', carets: caretsAt(0) }];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    segments.push({
+      text: value.slice(start, end),
+      highlight: placed.find(item => item.from <= start && end <= item.to)?.collaborator,
+      carets: caretsAt(end),
+    });
+  }
+  return segments;
+}
+
+// Draws other people's carets and selections over the note textarea. The
+// overlay mirrors the textarea's text invisibly so positions match its wrapping.
+export function RemoteCursors({ textareaRef, value, collaborators }: RemoteCursorsProps) {
+  const [mirrorStyle, setMirrorStyle] = useState<MirrorStyle>({});
+  const [box, setBox] = useState({ top: 0, left: 0, width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const measure = () => {
+      const computed = window.getComputedStyle(textarea);
+      const style: MirrorStyle = {};
+      MIRRORED_STYLES.forEach(property => {
+        style[property] = computed[property];
+      });
+      setMirrorStyle(style);
+      setBox({
+        top: textarea.offsetTop,
+        left: textarea.offsetLeft,
+        width: textarea.offsetWidth,
+        height: textarea.offsetHeight,
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, [textareaRef]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const handleScroll = () => setScrollTop(textarea.scrollTop);
+    handleScroll();
+    textarea.addEventListener('scroll', handleScroll);
+    return () => textarea.removeEventListener('scroll', handleScroll);
+  }, [textareaRef, value]);
+
+  if (!collaborators.some(collaborator => collaborator.cursor)) return null;
+
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none absolute overflow-hidden"
+      style={{ top: box.top, left: box.left, width: box.width, height: box.height }}
+    >
+      <div
+        className="whitespace-pre-wrap break-words text-transparent border-transparent border-solid"
+        style={{ ...mirrorStyle, transform: `translateY(${-scrollTop}px)` } as React.CSSProperties}
+      >
+        {buildSegments(value, collaborators).map((segment, index) => (
+          <React.Fragment key={index}>
+            <span style={segment.highlight ? { backgroundColor: `${segment.highlight.color}33` } : undefined}>
+              {segment.text}
+            </span>
+            {segment.carets.map(collaborator => (
+              <span key={collaborator.sessionId} className="relative">
+                <span
+                  className="absolute top-0 bottom-0 w-0.5 -ml-px"
+                  style={{ backgroundColor: collaborator.color }}
+                />
+                <span
+                  className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+                  style={{ backgroundColor: collaborator.color }}
+                >
+                  {collaborator.name.split('@')[0]}
+                </span>
+              </span>
+            ))}
+          </React.Fragment>
+        ))}
+        {/* Keeps a trailing newline's empty last line */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+export interface PendingLinkRename {
+  noteId: string;
+  oldTitle: string;
+  newTitle: string;
+  // Notes that link to the renamed note
+  linkCount: number;
+}
+
+interface RenameLinksDialogProps {
+  rename: PendingLinkRename | null;
+  onConfirm: (rename: PendingLinkRename) => void;
+  onDismiss: () => void;
+}
+
+// Offered after a note is renamed while other notes still link to it by the old title
+export function RenameLinksDialog({ rename, onConfirm, onDismiss }: RenameLinksDialogProps) {
+  return (
+    <AlertDialog open={!!rename} onOpenChange={(open) => !open && onDismiss()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Update links?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {rename?.linkCount === 1 ? '1 note links' : `${rename?.linkCount} notes link`} to this note as
+            "[[{rename?.oldTitle}]]". Update {rename?.linkCount === 1 ? 'it' : 'them'} to "[[{rename?.newTitle}]]"?
+            The previous versions stay in each note's history.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep old links</AlertDialogCancel>
+          <AlertDialogAction onClick={() => rename && onConfirm(rename)}>
+            Update links
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
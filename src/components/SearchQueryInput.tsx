@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { getSearchSuggestions, SearchFacets, SearchQueryError } from '@/lib/searchQuery';
+import { cn } from '@/lib/utils';
+import { AlertTriangle } from 'lucide-react';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  facets: SearchFacets;
+  errors: SearchQueryError[];
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+// Search box for the note query language, with completions for filter names,
+// tags and code languages. Tab accepts the first completion.
+export function SearchQueryInput({
+  value,
+  onChange,
+  facets,
+  errors,
+  placeholder,
+  className,
+  autoFocus,
+  onKeyDown
+}: SearchQueryInputProps) {
+  const [cursor, setCursor] = useState(value.length);
+  const [focused, setFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const suggestions = focused ? getSearchSuggestions(value, cursor, facets) : [];
+
+  const trackCursor = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length);
+  };
+
+  const applySuggestion = (next: string, nextCursor: number) => {
+    onChange(next);
+    setCursor(nextCursor);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCursor, nextCursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Tab' && !e.shiftKey && suggestions.length > 0) {
+      e.preventDefault();
+      applySuggestion(suggestions[0].value, suggestions[0].cursor);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="flex-1 min-w-0">
+      <Input
+        ref={inputRef}
+        value={value}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        spellCheck={false}
+        aria-invalid={errors.length > 0}
+        onChange={(e) => {
+          onChange(e.target.value);
+          trackCursor(e);
+        }}
+        onSelect={trackCursor}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        className={cn(errors.length > 0 && 'text-destructive', className)}
+      />
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion.label}
+              type="button"
+              // Keep focus in the input so the caret position survives
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => applySuggestion(suggestion.value, suggestion.cursor)}
+              className={cn(
+                'px-2 py-0.5 rounded-md border border-border text-xs font-mono transition-fast hover:bg-accent hover:text-accent-foreground',
+                index === 0 && 'border-primary/50'
+              )}
+            >
+              {suggestion.label}
+            </button>
+          ))}
+          <span className="text-xs text-muted-foreground ml-1">Tab to complete</span>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {errors.map(error => (
+            <p key={`${error.start}-${error.message}`} className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              <span className="font-mono">{value.slice(error.start, error.end)}</span>
+              <span>— {error.message}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { NoteShare } from '@/hooks/useNoteShares';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Users, UserMinus, Loader2, LogOut } from 'lucide-react';
+
+interface ShareNoteDialogProps {
+  noteTitle: string;
+  // Shares of this note visible to the user: all of them for the owner, only
+  // their own for a collaborator
+  shares: NoteShare[];
+  isOwner: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves false when sharing failed, keeping the typed email
+  onShare: (email: string) => Promise<boolean>;
+  onRemove: (share: NoteShare) => void;
+}
+
+// Owners invite people by email to co-edit the note; collaborators can leave it
+export function ShareNoteDialog({ noteTitle, shares, isOwner, open, onOpenChange, onShare, onRemove }: ShareNoteDialogProps) {
+  const [email, setEmail] = useState('');
+  const [sharing, setSharing] = useState(false);
+  const ownShare = !isOwner ? shares[0] : undefined;
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setSharing(true);
+    const shared = await onShare(email.trim());
+    setSharing(false);
+    if (shared) setEmail('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            Share "{noteTitle || 'Untitled'}"
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? 'People you share with can open and edit this note with you in real time. Only you can move it to the trash.'
+              : `Shared with you by ${ownShare?.ownerEmail || 'its owner'}. Edits you make are visible to everyone the note is shared with.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleShare} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              autoFocus
+            />
+            <Button type="submit" disabled={sharing || !email.trim()}>
+              {sharing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Share
+            </Button>
+          </form>
+        )}
+
+        {isOwner && (
+          <div className="space-y-1">
+            {shares.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not shared with anyone yet.</p>
+            ) : (
+              shares.map(share => (
+                <div key={share.id} className="flex items-center justify-between gap-2 rounded-md px-2 py-1.5 hover:bg-accent/10">
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{share.email}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Added {formatDistanceToNow(new Date(share.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRemove(share)} title="Remove access">
+                    <UserMinus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {ownShare && (
+          <Button variant="outline" onClick={() => onRemove(ownShare)}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave this note
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
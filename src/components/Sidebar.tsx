@@ -7,7 +7,8 @@ import {
   CheckSquare, 
   Brain, 
   Hash,
-  Sparkles
+  Sparkles,
+  Trash2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -32,9 +33,9 @@ interface SidebarProps {
   notes: Note[];
   tasks: Task[];
   activeNote: Note | null;
-  activeView: 'notes' | 'tasks' | 'mindmap' | 'chat';
+  activeView: 'notes' | 'tasks' | 'mindmap' | 'chat' | 'trash';
   onNoteSelect: (note: Note) => void;
-  onViewChange: (view: 'notes' | 'tasks' | 'mindmap' | 'chat') => void;
+  onViewChange: (view: 'notes' | 'tasks' | 'mindmap' | 'chat' | 'trash') => void;
   onNewNote: () => void;
   onDeleteNote: (noteId: string) => void;
 }
@@ -141,6 +142,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <Sparkles className="h-4 w-4 mr-2" />
             AI Chat
           </Button>
+
+          <Button
+            variant={activeView === 'trash' ? 'default' : 'ghost'}
+            className={cn(
+              "w-full justify-start",
+              activeView === 'trash' && "bg-sidebar-primary text-sidebar-primary-foreground"
+            )}
+            onClick={() => onViewChange('trash')}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Trash
+          </Button>
         </div>
       </div>
 
@@ -181,6 +194,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </ScrollArea>
         )}
 
+        {activeView === 'trash' && (
+          <ScrollArea className="h-full">
+            <div className="p-4">
+              <div className="text-center text-muted-foreground py-8">
+                <Trash2 className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Deleted notes and tasks</p>
+                <p className="text-xs">Restore them before they are purged</p>
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
         {activeView === 'notes' && (
           <div className="p-4">
             <div className="text-center text-muted-foreground py-8">
@@ -197,7 +222,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
         <div className="text-xs text-muted-foreground space-y-1">
           <div>⌘K - Command palette</div>
           <div>⌘⇧N - New note</div>
-          <div>⌘1/2/3/4 - Switch views</div>
+          <div>⌘1/2/3/4/5 - Switch views</div>
         </div>
       </div>
     </div>
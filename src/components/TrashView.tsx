@@ -0,0 +1,176 @@
+import React from 'react';
+import { addDays, formatDistanceToNow } from 'date-fns';
+import { useTrash, TrashItem } from '@/hooks/useTrash';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { FileText, CheckSquare, RotateCcw, Trash2, Loader2 } from 'lucide-react';
+
+interface TrashViewProps {
+  // Lets the workspace reload its notes or tasks after a restore
+  onRestored: (item: TrashItem) => void;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90, 365];
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const {
+    items,
+    loading,
+    retentionDays,
+    restoreItem,
+    deleteForever,
+    emptyTrash,
+    setRetentionDays
+  } = useTrash();
+
+  const handleRestore = async (item: TrashItem) => {
+    if (await restoreItem(item)) {
+      onRestored(item);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-background overflow-hidden">
+      {/* Header */}
+      <header className="border-b border-border p-6 bg-card/50">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold gradient-text mb-2">Trash</h1>
+            <p className="text-muted-foreground">
+              Deleted notes and tasks are kept for {retentionDays} days, then removed permanently
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={String(retentionDays)}
+              onValueChange={(value) => setRetentionDays(Number(value))}
+            >
+              <SelectTrigger className="w-32" aria-label="Retention period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Keep a value set outside these options selectable */}
+                {[...new Set([...RETENTION_OPTIONS, retentionDays])].sort((a, b) => a - b).map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" disabled={items.length === 0}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Empty Trash
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Permanently delete {items.length} item{items.length === 1 ? '' : 's'}? This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={emptyTrash}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Empty Trash
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </header>
+
+      <ScrollArea className="flex-1">
+        <div className="p-6 space-y-3">
+          {loading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading trash...
+            </div>
+          )}
+
+          {!loading && items.length === 0 && (
+            <div className="text-center text-muted-foreground py-12">
+              <Trash2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium mb-2">Trash is empty</p>
+              <p className="text-sm">Deleted notes and tasks show up here</p>
+            </div>
+          )}
+
+          {items.map(item => (
+            <div
+              key={`${item.kind}-${item.id}`}
+              className="flex items-start gap-3 p-4 rounded-lg border border-border bg-card"
+            >
+              {item.kind === 'note'
+                ? <FileText className="h-4 w-4 mt-1 text-primary flex-shrink-0" />
+                : <CheckSquare className="h-4 w-4 mt-1 text-primary flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium truncate">{item.title || 'Untitled'}</span>
+                  <Badge variant="secondary" className="text-xs">{item.kind}</Badge>
+                </div>
+                {item.preview && (
+                  <p className="text-sm text-muted-foreground truncate">{item.preview}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })} ·
+                  removed permanently {formatDistanceToNow(addDays(new Date(item.deletedAt), retentionDays), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRestore(item)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" title="Delete permanently">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete permanently</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Permanently delete "{item.title || 'Untitled'}"? This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteForever(item)}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { useUsage, UsageBucket, UsageLimit, UsagePoint } from '@/hooks/useUsage';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Activity, AlertTriangle, RefreshCw } from 'lucide-react';
+
+const chartConfig = {
+  tokensIn: { label: 'Input tokens', color: 'hsl(var(--primary))' },
+  tokensOut: { label: 'Output tokens', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const FUNCTION_LABELS: Record<string, string> = {
+  'gemini-chat-local': 'AI chat',
+  'generate-embeddings-local': 'Note indexing',
+};
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatBucket = (key: string, bucket: UsageBucket) =>
+  new Date(`${key}${bucket === 'day' ? '' : '-01'}T00:00:00Z`).toLocaleDateString(undefined, bucket === 'day'
+    ? { month: 'short', day: 'numeric', timeZone: 'UTC' }
+    : { month: 'short', year: '2-digit', timeZone: 'UTC' });
+
+function LimitRow({ label, used, limit }: { label: string; used: number; limit: number | null }) {
+  if (limit === null) return null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span>{formatNumber(used)} / {formatNumber(limit)}</span>
+      </div>
+      <Progress value={Math.min(100, (used / limit) * 100)} className="h-1.5" />
+    </div>
+  );
+}
+
+function LimitsList({ limits }: { limits: UsageLimit[] }) {
+  if (limits.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-sm font-medium">Limits (last 24 hours)</h4>
+      {limits.map(limit => (
+        <div key={limit.functionName} className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{FUNCTION_LABELS[limit.functionName] ?? limit.functionName}</span>
+            {limit.requestsPerMinute !== null && (
+              <span className="text-xs text-muted-foreground">{limit.requestsPerMinute} requests / minute</span>
+            )}
+          </div>
+          <LimitRow label="Requests" used={limit.requestsLast24h} limit={limit.requestsPerDay} />
+          <LimitRow label="Tokens" used={limit.tokensLast24h} limit={limit.tokensPerDay} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function UsagePanel() {
+  const { daily, monthly, limits, loading, error, refresh } = useUsage();
+  const [bucket, setBucket] = useState<UsageBucket>('day');
+
+  const points: UsagePoint[] = bucket === 'day' ? daily : monthly;
+  const totals = points.reduce(
+    (sum, point) => ({
+      requests: sum.requests + point.requests,
+      rejected: sum.rejected + point.rejected,
+      errors: sum.errors + point.errors,
+      tokens: sum.tokens + point.tokensIn + point.tokensOut,
+    }),
+    { requests: 0, rejected: 0, errors: 0, tokens: 0 }
+  );
+
+  return (
+    <Card className="shadow-lg mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Activity className="h-5 w-5 text-primary" />
+            <CardTitle>AI Usage</CardTitle>
+          </div>
+          <Button variant="ghost" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Requests and estimated tokens used by the chat assistant and note indexing
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={bucket} onValueChange={value => setBucket(value as UsageBucket)}>
+          <TabsList>
+            <TabsTrigger value="day">Last 30 days</TabsTrigger>
+            <TabsTrigger value="month">Last 12 months</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground text-xs">Requests</div>
+            <div className="font-medium">{formatNumber(totals.requests)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Tokens</div>
+            <div className="font-medium">{formatNumber(totals.tokens)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Rate limited</div>
+            <div className="font-medium">{formatNumber(totals.rejected)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs">Errors</div>
+            <div className="font-medium">{formatNumber(totals.errors)}</div>
+          </div>
+        </div>
+
+        <ChartContainer config={chartConfig} className="h-56 w-full">
+          <BarChart data={points} margin={{ left: 0, right: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="bucket"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={16}
+              tickFormatter={key => formatBucket(key, bucket)}
+            />
+            <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={formatNumber} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={key => formatBucket(String(key), bucket)} />}
+            />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="tokensIn" stackId="tokens" fill="var(--color-tokensIn)" />
+            <Bar dataKey="tokensOut" stackId="tokens" fill="var(--color-tokensOut)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+
+        <LimitsList limits={limits} />
+      </CardContent>
+    </Card>
+  );
+}
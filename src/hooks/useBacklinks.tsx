@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { splitWikiLinks } from '@/lib/wikiLinks';
+import { useAuth } from './useAuth';
+
+export interface Backlink {
+  noteId: string;
+  title: string;
+  // The line of the linking note that holds the link
+  context: string;
+}
+
+// Notes whose [[links]] resolve to this note, from the note_links table the
+// database keeps in sync on save. `version` refetches after edits.
+export function useBacklinks(noteId: string | null | undefined, version?: string | number) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+  const { user } = useAuth();
+
+  const fetchBacklinks = useCallback(async () => {
+    const request = ++latestRequest.current;
+    if (!user || !noteId) {
+      setBacklinks([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data: links, error: linksError } = await supabase
+        .from('note_links')
+        .select('source_note_id, target_title')
+        .eq('target_note_id', noteId);
+
+      if (linksError) throw linksError;
+
+      const sourceIds = [...new Set((links || []).map(link => link.source_note_id))];
+      let sources: Array<{ id: string; title: string; content: string | null }> = [];
+      if (sourceIds.length > 0) {
+        const { data, error } = await supabase
+          .from('notes')
+          .select('id, title, content')
+          .in('id', sourceIds)
+          .is('deleted_at', null)
+          .order('updated_at', { ascending: false });
+
+        if (error) throw error;
+        sources = data || [];
+      }
+
+      if (request !== latestRequest.current) return;
+
+      setBacklinks(sources.map(source => {
+        const titles = new Set((links || [])
+          .filter(link => link.source_note_id === source.id)
+          .map(link => link.target_title.toLowerCase()));
+        const context = (source.content || '')
+          .split('\n')
+          .find(line => splitWikiLinks(line).some(segment =>
+            segment.type === 'link' && titles.has(segment.title.toLowerCase())
+          ));
+        return {
+          noteId: source.id,
+          title: source.title,
+          context: context?.trim() || '',
+        };
+      }));
+    } catch (error) {
+      if (request !== latestRequest.current) return;
+      console.error('Error loading backlinks:', error);
+      setError((error as Error).message);
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, noteId]);
+
+  useEffect(() => {
+    fetchBacklinks();
+  }, [fetchBacklinks, version]);
+
+  return {
+    backlinks,
+    loading,
+    error,
+    refresh: fetchBacklinks,
+  };
+}
+
+// Number of notes outside the trash still linking to a note, used to offer
+// rewriting those links after it is renamed
+export async function countBacklinks(noteId: string) {
+  const { data: links, error: linksError } = await supabase
+    .from('note_links')
+    .select('source_note_id')
+    .eq('target_note_id', noteId);
+
+  if (linksError) throw linksError;
+  if (!links || links.length === 0) return 0;
+
+  const { count, error } = await supabase
+    .from('notes')
+    .select('id', { count: 'exact', head: true })
+    .in('id', [...new Set(links.map(link => link.source_note_id))])
+    .is('deleted_at', null);
+
+  if (error) throw error;
+  return count ?? 0;
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ChatAction, ChatCitation, ChatSourceNote } from '@/lib/chatStream';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  content: string;
+  isUser: boolean;
+  timestamp: Date;
+  sourceNotes?: ChatSourceNote[];
+  citations?: ChatCitation[];
+  actions?: ChatAction[];
+  isError?: boolean;
+}
+
+const SESSION_TITLE_LENGTH = 60;
+
+export function sessionTitleFrom(message: string): string {
+  const title = message.trim().replace(/\s+/g, ' ');
+  return title.length > SESSION_TITLE_LENGTH ? `${title.slice(0, SESSION_TITLE_LENGTH - 1)}…` : title;
+}
+
+export function useChatSessions() {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      fetchSessions();
+    }
+  }, [user]);
+
+  const fetchSessions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .select('id, title, created_at, updated_at')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setSessions(data || []);
+    } catch (error) {
+      toast({
+        title: "Error fetching chats",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createSession = async (title: string) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .insert([{ title, user_id: user.id }])
+        .select('id, title, created_at, updated_at')
+        .single();
+
+      if (error) throw error;
+
+      setSessions(prev => [data, ...prev]);
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error saving chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const renameSession = async (sessionId: string, title: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_sessions')
+        .update({ title })
+        .eq('id', sessionId)
+        .select('id, title, created_at, updated_at')
+        .single();
+
+      if (error) throw error;
+
+      setSessions(prev => prev.map(session => session.id === sessionId ? data : session));
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error renaming chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const deleteSession = async (sessionId: string) => {
+    try {
+      const { error } = await supabase
+        .from('chat_sessions')
+        .delete()
+        .eq('id', sessionId);
+
+      if (error) throw error;
+
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      toast({
+        title: "Chat deleted",
+        description: "The conversation has been removed",
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error deleting chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const loadMessages = async (sessionId: string): Promise<ChatMessage[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('id, role, content, source_notes, citations, actions, is_error, created_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        id: row.id,
+        content: row.content,
+        isUser: row.role === 'user',
+        timestamp: new Date(row.created_at),
+        sourceNotes: row.source_notes as unknown as ChatSourceNote[],
+        citations: row.citations as unknown as ChatCitation[],
+        actions: row.actions as unknown as ChatAction[],
+        isError: row.is_error,
+      }));
+    } catch (error) {
+      toast({
+        title: "Error loading chat",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return [];
+    }
+  };
+
+  const saveMessage = async (sessionId: string, message: ChatMessage) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('chat_messages')
+      .insert([{
+        id: message.id,
+        session_id: sessionId,
+        user_id: user.id,
+        role: message.isUser ? 'user' : 'assistant',
+        content: message.content,
+        source_notes: (message.sourceNotes || []) as unknown as Json,
+        citations: (message.citations || []) as unknown as Json,
+        actions: (message.actions || []) as unknown as Json,
+        is_error: message.isError || false,
+      }]);
+
+    if (error) {
+      console.error('Error saving chat message:', error);
+      return;
+    }
+
+    // The insert trigger bumps updated_at; mirror it so the list re-sorts
+    const now = new Date().toISOString();
+    setSessions(prev => {
+      const session = prev.find(s => s.id === sessionId);
+      return session
+        ? [{ ...session, updated_at: now }, ...prev.filter(s => s.id !== sessionId)]
+        : prev;
+    });
+  };
+
+  const updateMessageActions = async (messageId: string, actions: ChatAction[]) => {
+    const { error } = await supabase
+      .from('chat_messages')
+      .update({ actions: actions as unknown as Json })
+      .eq('id', messageId);
+
+    if (error) {
+      console.error('Error saving chat actions:', error);
+    }
+  };
+
+  return {
+    sessions,
+    loading,
+    createSession,
+    renameSession,
+    deleteSession,
+    loadMessages,
+    saveMessage,
+    updateMessageActions,
+    refetch: fetchSessions
+  };
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, RefObject } from 'react';
+import * as Y from 'yjs';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  COLLAB_TEXT_NAME,
+  applyTextChange,
+  collaboratorColor,
+  decodeCursor,
+  encodeCursor,
+  fromBase64,
+  seedUpdate,
+  toBase64,
+} from '@/lib/collabText';
+import type { Note } from './useNotes';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+
+export interface Collaborator {
+  // One per open editor, so the same user can appear from several tabs
+  sessionId: string;
+  userId: string;
+  name: string;
+  color: string;
+  // Character offsets into the current text, or null while not focused
+  cursor: { anchor: number; head: number } | null;
+}
+
+export type CollabStatus = 'connecting' | 'live' | 'offline';
+
+interface PresencePayload {
+  userId: string;
+  name: string;
+  color: string;
+  cursor: { anchor: unknown; head: unknown } | null;
+}
+
+// Update origins that must not be broadcast or saved again
+const REMOTE = 'remote';
+const LOADED = 'loaded';
+
+// How long a joining editor waits for someone already in the session before
+// starting from the saved note
+const PEER_SYNC_WAIT_MS = 800;
+const SAVE_DELAY_MS = 2000;
+const CURSOR_THROTTLE_MS = 100;
+// Size of an encoded Yjs update that contains nothing
+const EMPTY_UPDATE_BYTES = 2;
+
+// Live co-editing of a shared note's content. The text is a Yjs document kept
+// in sync over a private Realtime broadcast channel, with presence carrying
+// who is in the note and where their cursor is. Local edits are saved to
+// notes.content (with the Yjs state, for people joining later) once typing
+// pauses. Pass null to stay disconnected.
+export function useCollaborativeNote(noteId: string | null, textareaRef: RefObject<HTMLTextAreaElement>) {
+  const [text, setTextState] = useState('');
+  const [ready, setReady] = useState(false);
+  const [status, setStatus] = useState<CollabStatus>('connecting');
+  const [presence, setPresence] = useState<Array<PresencePayload & { sessionId: string }>>([]);
+  const docRef = useRef<Y.Doc | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const presenceRef = useRef<PresencePayload | null>(null);
+  const saveRef = useRef<() => Promise<Note | null>>(async () => null);
+  const dirtyRef = useRef(false);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const cursorTimer = useRef<ReturnType<typeof setTimeout>>();
+  const pendingSelection = useRef<{ start: number; end: number } | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!noteId || !user) return;
+
+    let disposed = false;
+    const sessionId = crypto.randomUUID();
+    const doc = new Y.Doc();
+    const ytext = doc.getText(COLLAB_TEXT_NAME);
+    const channel = supabase.channel(`note:${noteId}`, {
+      config: {
+        private: true,
+        broadcast: { self: false },
+        presence: { key: sessionId },
+      },
+    });
+    let initialized = false;
+    let peerWait: ReturnType<typeof setTimeout> | undefined;
+
+    docRef.current = doc;
+    channelRef.current = channel;
+    presenceRef.current = {
+      userId: user.id,
+      name: user.email || 'Anonymous',
+      color: collaboratorColor(user.id),
+      cursor: null,
+    };
+    setTextState('');
+    setReady(false);
+    setStatus('connecting');
+    setPresence([]);
+
+    const markInitialized = () => {
+      if (initialized || disposed) return;
+      initialized = true;
+      clearTimeout(peerWait);
+      setReady(true);
+      setStatus('live');
+    };
+
+    const save = async () => {
+      if (!dirtyRef.current) return null;
+      dirtyRef.current = false;
+      clearTimeout(saveTimer.current);
+
+      const { data, error } = await supabase.rpc('save_collab_note', {
+        target_note_id: noteId,
+        content: ytext.toString(),
+        state: toBase64(Y.encodeStateAsUpdate(doc)),
+      });
+
+      if (error) {
+        dirtyRef.current = true;
+        console.error('Error saving shared note:', error);
+        toast({
+          title: "Error saving shared note",
+          description: error.message,
+          variant: "destructive",
+        });
+        return null;
+      }
+      return (data?.[0] as Note | undefined) ?? null;
+    };
+    saveRef.current = save;
+
+    // Keep the local caret on the same character while remote edits land
+    const applyRemoteUpdate = (update: Uint8Array) => {
+      const textarea = textareaRef.current;
+      const focused = !!textarea && document.activeElement === textarea;
+      const selection = focused ? [
+        Y.createRelativePositionFromTypeIndex(ytext, textarea.selectionStart),
+        Y.createRelativePositionFromTypeIndex(ytext, textarea.selectionEnd),
+      ] : null;
+
+      Y.applyUpdate(doc, update, REMOTE);
+
+      if (selection) {
+        const start = Y.createAbsolutePositionFromRelativePosition(selection[0], doc);
+        const end = Y.createAbsolutePositionFromRelativePosition(selection[1], doc);
+        if (start && end) pendingSelection.current = { start: start.index, end: end.index };
+      }
+    };
+
+    // Nobody else is in the note: continue the saved session if the note
+    // hasn't been saved outside it since, otherwise start from the plain text
+    const loadSavedState = async () => {
+      try {
+        const [noteResult, stateResult] = await Promise.all([
+          supabase.from('notes').select('content').eq('id', noteId).maybeSingle(),
+          supabase.from('note_collab_state').select('state, content').eq('note_id', noteId).maybeSingle(),
+        ]);
+
+        if (noteResult.error) throw noteResult.error;
+        if (stateResult.error) throw stateResult.error;
+        if (disposed || initialized) return;
+
+        const content = noteResult.data?.content || '';
+        const saved = stateResult.data;
+        Y.applyUpdate(doc, saved && saved.content === content ? fromBase64(saved.state) : seedUpdate(content), LOADED);
+        markInitialized();
+      } catch (error) {
+        if (disposed) return;
+        console.error('Error loading shared note:', error);
+        setStatus('offline');
+      }
+    };
+
+    ytext.observe(() => setTextState(ytext.toString()));
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE || origin === LOADED) return;
+      channel.send({ type: 'broadcast', event: 'update', payload: { update: toBase64(update) } });
+      dirtyRef.current = true;
+      clearTimeout(saveTimer.current);
+      saveTimer.current = setTimeout(save, SAVE_DELAY_MS);
+    });
+
+    channel
+      .on('broadcast', { event: 'update' }, ({ payload }) => {
+        applyRemoteUpdate(fromBase64(payload.update));
+      })
+      .on('broadcast', { event: 'sync-request' }, ({ payload }) => {
+        // Only answer once our own copy is complete
+        if (!initialized) return;
+        channel.send({
+          type: 'broadcast',
+          event: 'sync-reply',
+          payload: {
+            to: payload.from,
+            update: toBase64(Y.encodeStateAsUpdate(doc, fromBase64(payload.stateVector))),
+            stateVector: toBase64(Y.encodeStateVector(doc)),
+          },
+        });
+      })
+      .on('broadcast', { event: 'sync-reply' }, ({ payload }) => {
+        if (payload.to !== sessionId) return;
+        applyRemoteUpdate(fromBase64(payload.update));
+        // Send back anything they're missing, e.g. edits made while we were offline
+        const missing = Y.encodeStateAsUpdate(doc, fromBase64(payload.stateVector));
+        if (initialized && missing.length > EMPTY_UPDATE_BYTES) {
+          channel.send({ type: 'broadcast', event: 'update', payload: { update: toBase64(missing) } });
+        }
+        markInitialized();
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setPresence(Object.entries(state)
+          .filter(([key]) => key !== sessionId)
+          .flatMap(([key, entries]) => entries.slice(0, 1).map(entry => ({
+            sessionId: key,
+            userId: entry.userId,
+            name: entry.name,
+            color: entry.color,
+            cursor: entry.cursor,
+          }))));
+      })
+      .subscribe((channelStatus) => {
+        if (channelStatus === 'SUBSCRIBED') {
+          if (presenceRef.current) channel.track(presenceRef.current);
+          // Also catches up on edits missed while reconnecting
+          channel.send({
+            type: 'broadcast',
+            event: 'sync-request',
+            payload: { from: sessionId, stateVector: toBase64(Y.encodeStateVector(doc)) },
+          });
+          if (initialized) {
+            setStatus('live');
+          } else {
+            peerWait = setTimeout(loadSavedState, PEER_SYNC_WAIT_MS);
+          }
+        } else if (channelStatus === 'CHANNEL_ERROR' || channelStatus === 'TIMED_OUT') {
+          setStatus('offline');
+        }
+      });
+
+    return () => {
+      disposed = true;
+      clearTimeout(peerWait);
+      clearTimeout(cursorTimer.current);
+      // Don't lose edits made in the last moments before closing
+      if (dirtyRef.current) {
+        save().finally(() => doc.destroy());
+      } else {
+        clearTimeout(saveTimer.current);
+        doc.destroy();
+      }
+      supabase.removeChannel(channel);
+      docRef.current = null;
+      channelRef.current = null;
+      saveRef.current = async () => null;
+    };
+  }, [noteId, user, textareaRef, toast]);
+
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current;
+    const textarea = textareaRef.current;
+    if (!selection || !textarea) return;
+    pendingSelection.current = null;
+    textarea.setSelectionRange(selection.start, selection.end);
+  }, [text, textareaRef]);
+
+  // Replaces the shared text with an edited version of it
+  const setText = useCallback((next: string) => {
+    const doc = docRef.current;
+    if (!doc || !ready) return;
+    applyTextChange(doc.getText(COLLAB_TEXT_NAME), next);
+  }, [ready]);
+
+  // Shares the local selection with the others in the note (null on blur)
+  const setCursor = useCallback((anchor: number | null, head: number | null = anchor) => {
+    const doc = docRef.current;
+    const channel = channelRef.current;
+    if (!doc || !channel || !presenceRef.current) return;
+
+    const ytext = doc.getText(COLLAB_TEXT_NAME);
+    presenceRef.current = {
+      ...presenceRef.current,
+      cursor: anchor === null || head === null ? null : {
+        anchor: encodeCursor(ytext, anchor),
+        head: encodeCursor(ytext, head),
+      },
+    };
+
+    clearTimeout(cursorTimer.current);
+    cursorTimer.current = setTimeout(() => {
+      if (presenceRef.current) channel.track(presenceRef.current);
+    }, CURSOR_THROTTLE_MS);
+  }, []);
+
+  // Saves pending edits now, e.g. before leaving the editor
+  const flush = useCallback(() => saveRef.current(), []);
+
+  // Resolved on every render so cursors follow the text as it changes
+  const doc = docRef.current;
+  const collaborators: Collaborator[] = presence.map(entry => {
+    const anchor = doc && entry.cursor ? decodeCursor(doc, entry.cursor.anchor) : null;
+    const head = doc && entry.cursor ? decodeCursor(doc, entry.cursor.head) : null;
+    return {
+      sessionId: entry.sessionId,
+      userId: entry.userId,
+      name: entry.name,
+      color: entry.color,
+      cursor: anchor !== null && head !== null ? { anchor, head } : null,
+    };
+  });
+
+  return {
+    active: !!noteId,
+    ready,
+    status,
+    text,
+    setText,
+    setCursor,
+    collaborators,
+    flush,
+  };
+}
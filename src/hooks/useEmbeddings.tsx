@@ -54,9 +54,30 @@ export function useEmbeddings() {
     }
   };
 
+  // Re-embeds notes that have no vectors for the active provider (all notes when forced).
+  // The edge function answers immediately and finishes the work in the background.
+  const reindexEmbeddings = async (force = false) => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase.functions.invoke('reindex-embeddings', {
+        body: { action: 'start', force, background: true }
+      });
+
+      if (error) throw error;
+
+      console.log('Embedding re-index started:', data);
+      return data;
+    } catch (error) {
+      console.error('Error starting embedding re-index:', error);
+      throw new Error(`Failed to re-index embeddings: ${(error as Error).message}`);
+    }
+  };
+
   return {
     generateEmbeddings,
     deleteEmbeddings,
+    reindexEmbeddings,
     hasGeminiApiKey
   };
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  tags: string[];
+  // When this version of the note was saved
+  savedAt: string;
+}
+
+// Saved versions of a note, newest first. Revisions are written by a trigger
+// whenever a save replaces the note's title, content or tags; `version`
+// (e.g. the note's updated_at) refetches after the next save.
+export function useNoteRevisions(noteId: string | null | undefined, version?: string | number, enabled = true) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+  const { user } = useAuth();
+
+  const fetchRevisions = useCallback(async () => {
+    const request = ++latestRequest.current;
+    if (!user || !noteId || !enabled) {
+      setRevisions([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase
+        .from('note_revisions')
+        .select('id, note_id, title, content, tags, saved_at')
+        .eq('note_id', noteId)
+        .order('saved_at', { ascending: false });
+
+      if (error) throw error;
+      if (request !== latestRequest.current) return;
+
+      setRevisions((data || []).map(row => ({
+        id: row.id,
+        noteId: row.note_id,
+        title: row.title,
+        content: row.content || '',
+        tags: row.tags || [],
+        savedAt: row.saved_at,
+      })));
+    } catch (error) {
+      if (request !== latestRequest.current) return;
+      console.error('Error loading note history:', error);
+      setError((error as Error).message);
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, noteId, enabled]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, version]);
+
+  return {
+    revisions,
+    loading,
+    error,
+    refresh: fetchRevisions,
+  };
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { compileSearchQuery, parseSearchQuery, withTrailingPrefix } from '@/lib/searchQuery';
+import { useAuth } from './useAuth';
+
+export interface NoteSearchResult {
+  id: string;
+  title: string;
+  tags: string[];
+  updatedAt: string;
+  rank: number;
+  // Both carry highlight markers; render them with HighlightedText
+  titleHighlight: string;
+  snippet: string;
+}
+
+// Wait for a pause in typing before hitting the database
+const SEARCH_DEBOUNCE_MS = 200;
+
+export function useNoteSearch(query: string, limit = 50) {
+  const [results, setResults] = useState<NoteSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+  const { user } = useAuth();
+
+  const parsed = useMemo(() => parseSearchQuery(query), [query]);
+  // Compared by value so re-renders with the same query don't search again
+  const searchArgs = useMemo(
+    () => parsed.errors.length === 0 && parsed.clauses.length > 0
+      ? JSON.stringify(compileSearchQuery(withTrailingPrefix(parsed, query)))
+      : null,
+    [parsed, query]
+  );
+
+  useEffect(() => {
+    if (!user || !searchArgs) {
+      latestRequest.current++;
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    const request = ++latestRequest.current;
+    setSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const { data, error } = await supabase.rpc('search_notes', {
+          ...JSON.parse(searchArgs),
+          match_count: limit,
+        });
+
+        if (error) throw error;
+        // A newer query has started since; its results win
+        if (request !== latestRequest.current) return;
+
+        setResults((data || []).map(row => ({
+          id: row.id,
+          title: row.title,
+          tags: row.tags || [],
+          updatedAt: row.updated_at,
+          rank: row.rank,
+          titleHighlight: row.title_highlight,
+          snippet: row.snippet,
+        })));
+        setError(null);
+      } catch (error) {
+        if (request !== latestRequest.current) return;
+        console.error('Error searching notes:', error);
+        setError((error as Error).message);
+      } finally {
+        if (request === latestRequest.current) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [user, searchArgs, limit]);
+
+  return {
+    results,
+    searching,
+    error,
+    // Problems with the query itself; nothing is searched until they're fixed
+    queryErrors: parsed.errors,
+  };
+}
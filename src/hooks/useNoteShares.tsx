@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+
+export interface NoteShare {
+  id: string;
+  noteId: string;
+  ownerId: string;
+  ownerEmail: string;
+  // The collaborator, or null while the invite waits for them to sign up
+  userId: string | null;
+  email: string;
+  createdAt: string;
+}
+
+type NoteShareRow = {
+  id: string;
+  note_id: string;
+  owner_id: string;
+  owner_email: string;
+  user_id: string | null;
+  email: string;
+  created_at: string;
+};
+
+const toNoteShare = (row: NoteShareRow): NoteShare => ({
+  id: row.id,
+  noteId: row.note_id,
+  ownerId: row.owner_id,
+  ownerEmail: row.owner_email,
+  userId: row.user_id,
+  email: row.email,
+  createdAt: row.created_at,
+});
+
+// Shares of the user's own notes and of notes shared with them. Kept live so
+// a note shows up as soon as someone shares it.
+export function useNoteShares() {
+  const [shares, setShares] = useState<NoteShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const fetchShares = useCallback(async () => {
+    if (!user) {
+      setShares([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('note_shares')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setShares((data || []).map(toNoteShare));
+    } catch (error) {
+      console.error('Error loading note shares:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchShares();
+  }, [fetchShares]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`note-shares:${user.id}:${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'note_shares' }, () => fetchShares())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchShares]);
+
+  const shareNote = async (noteId: string, email: string) => {
+    try {
+      const { data, error } = await supabase.rpc('share_note', {
+        target_note_id: noteId,
+        email,
+      });
+
+      if (error) throw error;
+
+      const share = toNoteShare(data);
+      setShares(prev => [...prev.filter(existing => existing.id !== share.id), share]);
+      toast({
+        title: "Note shared",
+        description: `${share.email} can open and edit this note once signed in with that email`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error sharing note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Revokes a collaborator's access, or leaves a note shared with the user
+  const removeShare = async (share: NoteShare) => {
+    try {
+      const { error } = await supabase
+        .from('note_shares')
+        .delete()
+        .eq('id', share.id);
+
+      if (error) throw error;
+
+      setShares(prev => prev.filter(existing => existing.id !== share.id));
+      toast({
+        title: share.userId === user?.id ? "Left shared note" : "Access removed",
+        description: share.userId === user?.id
+          ? "The note no longer appears in your notes"
+          : `${share.email} can no longer open this note`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error updating sharing",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  return {
+    shares,
+    loading,
+    shareNote,
+    removeShare,
+    refetch: fetchShares,
+  };
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
-import { useEmbeddings } from './useEmbeddings';
+import { mergeRealtimeChange } from '@/lib/realtimeMerge';
 
 export interface Note {
   id: string;
@@ -14,12 +15,17 @@ export interface Note {
   user_id: string;
 }
 
+// Result of a save guarded by the version the editor started from. `conflict`
+// holds the note as saved elsewhere since, or null if it no longer exists.
+export type SaveNoteResult = { note: Note } | { conflict: Note | null };
+
+const byUpdatedAtDesc = (a: Note, b: Note) => b.updated_at.localeCompare(a.updated_at);
+
 export function useNotes() {
   const [notes, setNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const { toast } = useToast();
-  const { generateEmbeddings, deleteEmbeddings } = useEmbeddings();
 
   useEffect(() => {
     if (user) {
@@ -27,11 +33,40 @@ export function useNotes() {
     }
   }, [user]);
 
+  // Keep in step with other tabs, devices and collaborators. Realtime checks
+  // each change against RLS, so this covers the user's own notes and notes
+  // shared with them. Channel names are unique because several components
+  // mount this hook at once.
+  useEffect(() => {
+    if (!user) return;
+
+    let subscribedBefore = false;
+    const channel = supabase
+      .channel(`notes:${user.id}:${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notes' },
+        (payload) => setNotes(prev => mergeRealtimeChange(prev, payload as RealtimePostgresChangesPayload<Note>, byUpdatedAtDesc))
+      )
+      .subscribe((status) => {
+        // Changes made while the connection was down are not replayed
+        if (status === 'SUBSCRIBED') {
+          if (subscribedBefore) fetchNotes();
+          subscribedBefore = true;
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
   const fetchNotes = async () => {
     try {
       const { data, error } = await supabase
         .from('notes')
         .select('*')
+        .is('deleted_at', null)
         .order('updated_at', { ascending: false });
 
       if (error) throw error;
@@ -64,7 +99,7 @@ export function useNotes() {
 
       if (error) throw error;
 
-      setNotes(prev => [data, ...prev]);
+      setNotes(prev => [data, ...prev.filter(existing => existing.id !== data.id)]);
       toast({
         title: "Note created",
         description: "Start typing to add content",
@@ -95,16 +130,8 @@ export function useNotes() {
         note.id === noteId ? data : note
       ));
 
-      // Auto-generate embeddings if note content is meaningful
-      if (data.content && data.content.trim().length > 50) {
-        try {
-          console.log('Auto-generating embeddings for updated note...');
-          await generateEmbeddings(data.id, data.content, data.title);
-          console.log('Embeddings generated successfully');
-        } catch (error) {
-          console.warn('Embedding generation failed (non-blocking):', error);
-        }
-      }
+      // Embeddings are refreshed server-side: a trigger on notes queues the
+      // note and the embedding-worker re-embeds changed chunks once edits settle
 
       return data;
     } catch (error: any) {
@@ -117,27 +144,88 @@ export function useNotes() {
     }
   };
 
-  const deleteNote = async (noteId: string) => {
+  // Saves only if nobody else has saved the note since `baseUpdatedAt`;
+  // otherwise reports the conflicting version and changes nothing
+  const saveNote = async (noteId: string, updates: Partial<Note>, baseUpdatedAt: string): Promise<SaveNoteResult | null> => {
     try {
-      // Delete embeddings first
-      try {
-        await deleteEmbeddings(noteId);
-        console.log('Embeddings deleted for note:', noteId);
-      } catch (embeddingError) {
-        console.warn('Error deleting embeddings (non-blocking):', embeddingError);
+      const { data, error } = await supabase
+        .from('notes')
+        .update(updates)
+        .eq('id', noteId)
+        .eq('updated_at', baseUpdatedAt)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setNotes(prev => prev.map(note => 
+          note.id === noteId ? data : note
+        ));
+        return { note: data };
       }
 
+      const { data: current, error: currentError } = await supabase
+        .from('notes')
+        .select('*')
+        .eq('id', noteId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (currentError) throw currentError;
+      return { conflict: current };
+    } catch (error) {
+      toast({
+        title: "Error updating note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  // Rewrites [[oldTitle]] links to a renamed note in every note that links to it
+  const renameNoteLinks = async (noteId: string, oldTitle: string, newTitle: string) => {
+    try {
+      const { data, error } = await supabase.rpc('rename_note_links', {
+        target_note_id: noteId,
+        old_title: oldTitle,
+        new_title: newTitle,
+      });
+
+      if (error) throw error;
+
+      await fetchNotes();
+      toast({
+        title: "Links updated",
+        description: `Updated links in ${data} note${data === 1 ? '' : 's'}`,
+      });
+      return data;
+    } catch (error) {
+      toast({
+        title: "Error updating links",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return 0;
+    }
+  };
+
+  // Moves the note to the trash. A trigger drops its embeddings so chat stops
+  // citing it; restoring it from the trash re-embeds it.
+  const deleteNote = async (noteId: string) => {
+    try {
       const { error } = await supabase
         .from('notes')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', noteId);
 
       if (error) throw error;
 
       setNotes(prev => prev.filter(note => note.id !== noteId));
       toast({
-        title: "Note deleted",
-        description: "The note and its embeddings have been removed",
+        title: "Note moved to trash",
+        description: "You can restore it from the Trash",
       });
     } catch (error: any) {
       toast({
@@ -153,6 +241,8 @@ export function useNotes() {
     loading,
     createNote,
     updateNote,
+    saveNote,
+    renameNoteLinks,
     deleteNote,
     refetch: fetchNotes
   };
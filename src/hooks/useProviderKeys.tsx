@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type ProviderKeyId = 'gemini' | 'llm';
+
+// What the browser may know about a stored key: that it exists, when it was
+// last changed and, for long enough keys, its last four characters
+export interface ProviderKeyStatus {
+  provider: ProviderKeyId;
+  lastFour: string | null;
+  updatedAt: string;
+}
+
+export function useProviderKeys() {
+  const [keys, setKeys] = useState<Partial<Record<ProviderKeyId, ProviderKeyStatus>>>({});
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchKeys();
+    }
+  }, [user]);
+
+  const fetchKeys = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_provider_keys')
+        .select('provider, last_four, updated_at');
+
+      if (error) throw error;
+
+      const next: Partial<Record<ProviderKeyId, ProviderKeyStatus>> = {};
+      for (const row of data || []) {
+        next[row.provider as ProviderKeyId] = {
+          provider: row.provider as ProviderKeyId,
+          lastFour: row.last_four,
+          updatedAt: row.updated_at,
+        };
+      }
+      setKeys(next);
+    } catch (error) {
+      console.error('Error loading provider keys:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stores a new key, replacing (rotating) any existing one
+  const saveKey = async (provider: ProviderKeyId, apiKey: string) => {
+    const { data, error } = await supabase.rpc('set_provider_key', {
+      target_provider: provider,
+      api_key: apiKey,
+    });
+
+    if (error) throw error;
+
+    const row = data?.[0];
+    if (row) {
+      setKeys(prev => ({
+        ...prev,
+        [provider]: { provider, lastFour: row.last_four, updatedAt: row.updated_at },
+      }));
+    }
+  };
+
+  const deleteKey = async (provider: ProviderKeyId) => {
+    const { error } = await supabase.rpc('delete_provider_key', { target_provider: provider });
+
+    if (error) throw error;
+
+    setKeys(prev => {
+      const next = { ...prev };
+      delete next[provider];
+      return next;
+    });
+  };
+
+  return {
+    keys,
+    loading,
+    saveKey,
+    deleteKey,
+    refetch: fetchKeys,
+  };
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface ReindexJob {
+  id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  provider: string;
+  model: string;
+  total_notes: number;
+  heartbeat_at: string;
+  created_at: string;
+}
+
+export interface ReindexProgress {
+  total: number;
+  done: number;
+  failed: number;
+  pending: number;
+}
+
+export interface ReindexItemResult {
+  noteId: string;
+  title: string;
+  status: 'done' | 'failed';
+  chunksProcessed: number;
+  error?: string;
+}
+
+interface ReindexResponse {
+  job: ReindexJob;
+  progress: ReindexProgress;
+  items: ReindexItemResult[];
+  resumed?: boolean;
+}
+
+// Wait before polling again when another worker holds the remaining items
+const IDLE_POLL_MS = 3000;
+// A running job nobody has claimed items for in this long lost its worker
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+const isStale = (job: ReindexJob) => Date.now() - new Date(job.heartbeat_at).getTime() > STALE_AFTER_MS;
+
+export function useReindexJob() {
+  const [job, setJob] = useState<ReindexJob | null>(null);
+  const [progress, setProgress] = useState<ReindexProgress | null>(null);
+  const [results, setResults] = useState<ReindexItemResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pauseRequested = useRef(false);
+  const { user } = useAuth();
+
+  // Running here, in the background of the edge function or in another tab
+  const interrupted = job?.status === 'running' && !running && isStale(job);
+  const runningElsewhere = job?.status === 'running' && !running && !interrupted;
+
+  useEffect(() => {
+    if (!user) return;
+    loadLatestJob();
+
+    // Follow the progress of a job this tab isn't driving
+    if (!runningElsewhere) return;
+    const timer = setInterval(loadLatestJob, IDLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [user, runningElsewhere]);
+
+  const invoke = async (body: Record<string, unknown>): Promise<ReindexResponse> => {
+    const { data, error } = await supabase.functions.invoke('reindex-embeddings', { body });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  };
+
+  const loadItems = async (jobId: string) => {
+    const { data, error } = await supabase
+      .from('reindex_job_items')
+      .select('note_id, note_title, status, chunks_processed, error')
+      .eq('job_id', jobId)
+      .order('updated_at', { ascending: true });
+
+    if (error) throw error;
+
+    const items = data || [];
+    setProgress({
+      total: items.length,
+      done: items.filter(item => item.status === 'done').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      pending: items.filter(item => item.status === 'pending' || item.status === 'processing').length,
+    });
+    setResults(items
+      .filter(item => item.status === 'done' || item.status === 'failed')
+      .map(item => ({
+        noteId: item.note_id,
+        title: item.note_title,
+        status: item.status as 'done' | 'failed',
+        chunksProcessed: item.chunks_processed,
+        error: item.error || undefined,
+      })));
+  };
+
+  const loadLatestJob = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('reindex_jobs')
+        .select('id, status, provider, model, total_notes, heartbeat_at, created_at')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      setJob(data as ReindexJob);
+      await loadItems(data.id);
+    } catch (error) {
+      console.error('Error loading reindex job:', error);
+    }
+  };
+
+  // Drive the job one batch at a time until it drains or the user pauses
+  const runJob = async (jobId: string) => {
+    setRunning(true);
+    setError(null);
+    pauseRequested.current = false;
+
+    try {
+      while (!pauseRequested.current) {
+        const data = await invoke({ action: 'process', jobId });
+        setJob(data.job);
+        setProgress(data.progress);
+        if (data.items.length > 0) {
+          setResults(prev => [...prev, ...data.items]);
+        }
+
+        if (data.job.status !== 'running' || data.progress.pending === 0) break;
+        if (data.items.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+        }
+      }
+    } catch (error) {
+      console.error('Reindex batch failed:', error);
+      setError((error as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const startRebuild = async () => {
+    if (!user || running) return null;
+
+    try {
+      setError(null);
+      const data = await invoke({ action: 'start', force: true });
+      setJob(data.job);
+      setProgress(data.progress);
+      if (data.resumed) {
+        await loadItems(data.job.id);
+      } else {
+        setResults([]);
+      }
+
+      // A job already being worked on elsewhere is followed, not driven twice
+      if (data.job.status === 'running' && !(data.resumed && !isStale(data.job))) {
+        await runJob(data.job.id);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error starting rebuild:', error);
+      setError((error as Error).message);
+      return null;
+    }
+  };
+
+  const resume = async () => {
+    if (job && interrupted) {
+      await runJob(job.id);
+    }
+  };
+
+  const pause = () => {
+    pauseRequested.current = true;
+  };
+
+  const cancel = async () => {
+    if (!job) return;
+    pauseRequested.current = true;
+
+    try {
+      const data = await invoke({ action: 'cancel', jobId: job.id });
+      setJob(data.job);
+      setProgress(data.progress);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  return {
+    job,
+    progress,
+    results,
+    running,
+    interrupted,
+    runningElsewhere,
+    error,
+    startRebuild,
+    resume,
+    pause,
+    cancel,
+    refetch: loadLatestJob
+  };
+}
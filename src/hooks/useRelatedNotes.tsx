@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface RelatedNote {
+  noteId: string;
+  title: string;
+  similarity: number;
+  // Chunks of the related note among the nearest candidates
+  matchingChunks: number;
+  snippet: string;
+  headingPath: string[];
+  // Where the snippet sits in the related note, for opening it highlighted
+  charStart: number | null;
+  charEnd: number | null;
+}
+
+const RELATED_NOTE_COUNT = 6;
+
+// Notes whose chunks sit closest to the averaged embedding of this note.
+// `version` (e.g. the note's updated_at) refetches after edits.
+export function useRelatedNotes(noteId: string | null | undefined, version?: string | number) {
+  const [related, setRelated] = useState<RelatedNote[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+  const { user } = useAuth();
+
+  const fetchRelated = useCallback(async () => {
+    const request = ++latestRequest.current;
+    if (!user || !noteId) {
+      setRelated([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error } = await supabase.rpc('related_notes', {
+        target_note_id: noteId,
+        match_count: RELATED_NOTE_COUNT,
+      });
+
+      if (error) throw error;
+      // Another note was opened while this one loaded
+      if (request !== latestRequest.current) return;
+
+      setRelated((data || []).map(row => ({
+        noteId: row.note_id,
+        title: row.title,
+        similarity: row.similarity,
+        matchingChunks: row.matching_chunks,
+        snippet: row.snippet,
+        headingPath: row.heading_path || [],
+        charStart: row.char_start,
+        charEnd: row.char_end,
+      })));
+    } catch (error) {
+      if (request !== latestRequest.current) return;
+      console.error('Error loading related notes:', error);
+      setError((error as Error).message);
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+      }
+    }
+  }, [user, noteId]);
+
+  useEffect(() => {
+    fetchRelated();
+  }, [fetchRelated, version]);
+
+  return {
+    related,
+    loading,
+    error,
+    refresh: fetchRelated,
+  };
+}
@@ -1,9 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { EmbeddingProviderId } from '@/lib/embeddingProviders';
+import { getLlmProviderOption, type LlmProviderId } from '@/lib/llmProviders';
 
 interface UserSettings {
-  gemini_api_key?: string;
+  has_gemini_api_key?: boolean;
+  embedding_provider?: EmbeddingProviderId;
+  llm_provider?: LlmProviderId;
 }
 
 export function useSettings() {
@@ -21,17 +25,26 @@ export function useSettings() {
 
   const loadSettings = async () => {
     try {
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('gemini_api_key')
-        .eq('user_id', user?.id)
-        .single();
+      const [{ data, error }, { data: geminiKey, error: keyError }] = await Promise.all([
+        supabase
+          .from('user_settings')
+          .select('embedding_provider, llm_provider')
+          .eq('user_id', user?.id)
+          .single(),
+        // The key itself never reaches the browser, only whether one is stored
+        supabase
+          .from('user_provider_keys')
+          .select('id')
+          .eq('provider', 'gemini')
+          .maybeSingle(),
+      ]);
 
       if (error && error.code !== 'PGRST116') {
         throw error;
       }
+      if (keyError) throw keyError;
 
-      setSettings(data || {});
+      setSettings({ ...(data || {}), has_gemini_api_key: !!geminiKey } as UserSettings);
     } catch (error) {
       console.error('Error loading settings:', error);
       setSettings({});
@@ -41,13 +54,19 @@ export function useSettings() {
   };
 
   const hasGeminiApiKey = () => {
-    return settings?.gemini_api_key && settings.gemini_api_key.length > 0;
+    return !!settings?.has_gemini_api_key;
+  };
+
+  // Local and OpenAI-compatible chat models need no Gemini key
+  const isChatConfigured = () => {
+    return !getLlmProviderOption(settings?.llm_provider).requiresGeminiKey || !!hasGeminiApiKey();
   };
 
   return {
     settings,
     loading,
     hasGeminiApiKey,
+    isChatConfigured,
     refetch: loadSettings
   };
 }
\ No newline at end of file
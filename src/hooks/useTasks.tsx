@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
+import { mergeRealtimeChange } from '@/lib/realtimeMerge';
 
 export interface Task {
   id: string;
@@ -13,6 +15,8 @@ export interface Task {
   user_id: string;
 }
 
+const byCreatedAtDesc = (a: Task, b: Task) => b.created_at.localeCompare(a.created_at);
+
 export function useTasks() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
@@ -25,11 +29,36 @@ export function useTasks() {
     }
   }, [user]);
 
+  // Keep in step with other tabs and devices (see useNotes)
+  useEffect(() => {
+    if (!user) return;
+
+    let subscribedBefore = false;
+    const channel = supabase
+      .channel(`tasks:${user.id}:${crypto.randomUUID()}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: `user_id=eq.${user.id}` },
+        (payload) => setTasks(prev => mergeRealtimeChange(prev, payload as RealtimePostgresChangesPayload<Task>, byCreatedAtDesc))
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          if (subscribedBefore) fetchTasks();
+          subscribedBefore = true;
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
   const fetchTasks = async () => {
     try {
       const { data, error } = await supabase
         .from('tasks')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -63,7 +92,7 @@ export function useTasks() {
 
       if (error) throw error;
 
-      setTasks(prev => [data as Task, ...prev]);
+      setTasks(prev => [data as Task, ...prev.filter(existing => existing.id !== data.id)]);
       toast({
         title: "Task created",
         description: task.title,
@@ -104,19 +133,20 @@ export function useTasks() {
     }
   };
 
+  // Moves the task to the trash
   const deleteTask = async (taskId: string) => {
     try {
       const { error } = await supabase
         .from('tasks')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', taskId);
 
       if (error) throw error;
 
       setTasks(prev => prev.filter(task => task.id !== taskId));
       toast({
-        title: "Task deleted",
-        description: "The task has been removed",
+        title: "Task moved to trash",
+        description: "You can restore it from the Trash",
       });
     } catch (error: any) {
       toast({
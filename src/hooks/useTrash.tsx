@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+
+export type TrashItemKind = 'note' | 'task';
+
+export interface TrashItem {
+  kind: TrashItemKind;
+  id: string;
+  title: string;
+  // Note content or task priority, for a one-line preview
+  preview: string;
+  deletedAt: string;
+}
+
+// Matches the user_settings column default, used until settings are saved
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const tableFor = (kind: TrashItemKind) => (kind === 'note' ? 'notes' : 'tasks');
+
+// Trashed notes and tasks, newest first. A nightly job purges items older
+// than the retention period; restoring a note re-embeds it server-side.
+export function useTrash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDaysState] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      fetchTrash();
+    }
+  }, [user]);
+
+  const fetchTrash = async () => {
+    try {
+      const [notesResult, tasksResult, settingsResult] = await Promise.all([
+        supabase
+          .from('notes')
+          .select('id, title, content, deleted_at')
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('tasks')
+          .select('id, title, priority, deleted_at')
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('user_settings')
+          .select('trash_retention_days')
+          .eq('user_id', user?.id)
+          .maybeSingle(),
+      ]);
+
+      if (notesResult.error) throw notesResult.error;
+      if (tasksResult.error) throw tasksResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      const next: TrashItem[] = [
+        ...(notesResult.data || []).map(note => ({
+          kind: 'note' as const,
+          id: note.id,
+          title: note.title,
+          preview: (note.content || '').slice(0, 160),
+          deletedAt: note.deleted_at!,
+        })),
+        ...(tasksResult.data || []).map(task => ({
+          kind: 'task' as const,
+          id: task.id,
+          title: task.title,
+          preview: `${task.priority} priority`,
+          deletedAt: task.deleted_at!,
+        })),
+      ];
+      next.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+      setItems(next);
+      setRetentionDaysState(settingsResult.data?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS);
+    } catch (error) {
+      toast({
+        title: "Error loading trash",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase
+        .from(tableFor(item.kind))
+        .update({ deleted_at: null })
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      setItems(prev => prev.filter(other => other.id !== item.id));
+      toast({
+        title: item.kind === 'note' ? "Note restored" : "Task restored",
+        description: item.title,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error restoring item",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deleteForever = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase
+        .from(tableFor(item.kind))
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      setItems(prev => prev.filter(other => other.id !== item.id));
+      toast({
+        title: "Deleted permanently",
+        description: item.title,
+      });
+    } catch (error) {
+      toast({
+        title: "Error deleting item",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const emptyTrash = async () => {
+    try {
+      const [notesResult, tasksResult] = await Promise.all([
+        supabase.from('notes').delete().not('deleted_at', 'is', null),
+        supabase.from('tasks').delete().not('deleted_at', 'is', null),
+      ]);
+
+      if (notesResult.error) throw notesResult.error;
+      if (tasksResult.error) throw tasksResult.error;
+
+      setItems([]);
+      toast({
+        title: "Trash emptied",
+        description: "Trashed notes and tasks were deleted permanently",
+      });
+    } catch (error) {
+      toast({
+        title: "Error emptying trash",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      fetchTrash();
+    }
+  };
+
+  const setRetentionDays = async (days: number) => {
+    const previous = retentionDays;
+    setRetentionDaysState(days);
+    try {
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({
+          user_id: user?.id,
+          trash_retention_days: days,
+        }, {
+          onConflict: 'user_id'
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      setRetentionDaysState(previous);
+      toast({
+        title: "Error saving retention period",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    items,
+    loading,
+    retentionDays,
+    restoreItem,
+    deleteForever,
+    emptyTrash,
+    setRetentionDays,
+    refetch: fetchTrash
+  };
+}
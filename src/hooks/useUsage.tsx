@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type UsageBucket = 'day' | 'month';
+
+export interface UsagePoint {
+  bucket: string;
+  requests: number;
+  rejected: number;
+  errors: number;
+  tokensIn: number;
+  tokensOut: number;
+}
+
+export interface UsageLimit {
+  functionName: string;
+  requestsPerMinute: number | null;
+  requestsPerDay: number | null;
+  tokensPerDay: number | null;
+  // Usage over the rolling 24 hours the daily limits are checked against
+  requestsLast24h: number;
+  tokensLast24h: number;
+}
+
+interface SummaryRow {
+  bucket_start: string;
+  requests: number;
+  rejected: number;
+  errors: number;
+  tokens_in: number;
+  tokens_out: number;
+}
+
+const DAYS_SHOWN = 30;
+const MONTHS_SHOWN = 12;
+
+// Bucket keys as returned by date_trunc in UTC: YYYY-MM-DD or YYYY-MM
+const bucketKey = (date: Date, bucket: UsageBucket) =>
+  date.toISOString().slice(0, bucket === 'day' ? 10 : 7);
+
+// One point per day or month, including the empty ones, so the chart keeps a steady axis
+function fillBuckets(rows: SummaryRow[], bucket: UsageBucket, start: Date): UsagePoint[] {
+  const points = new Map<string, UsagePoint>();
+  const cursor = new Date(start);
+  const now = new Date();
+
+  while (cursor <= now) {
+    const key = bucketKey(cursor, bucket);
+    points.set(key, { bucket: key, requests: 0, rejected: 0, errors: 0, tokensIn: 0, tokensOut: 0 });
+    if (bucket === 'day') {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    } else {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+  }
+
+  // Rows come per function; the chart shows the sum across functions
+  for (const row of rows) {
+    const point = points.get(bucketKey(new Date(row.bucket_start), bucket));
+    if (!point) continue;
+    point.requests += Number(row.requests);
+    point.rejected += Number(row.rejected);
+    point.errors += Number(row.errors);
+    point.tokensIn += Number(row.tokens_in);
+    point.tokensOut += Number(row.tokens_out);
+  }
+
+  return [...points.values()];
+}
+
+export function useUsage() {
+  const [daily, setDaily] = useState<UsagePoint[]>([]);
+  const [monthly, setMonthly] = useState<UsagePoint[]>([]);
+  const [limits, setLimits] = useState<UsageLimit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchUsage();
+    }
+  }, [user]);
+
+  const fetchSummary = async (bucket: UsageBucket, since: Date) => {
+    const { data, error } = await supabase.rpc('get_usage_summary', {
+      bucket,
+      since: since.toISOString(),
+    });
+
+    if (error) throw error;
+    return fillBuckets((data || []) as SummaryRow[], bucket, since);
+  };
+
+  const fetchLimits = async (): Promise<UsageLimit[]> => {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const [limitsResult, recentResult] = await Promise.all([
+      supabase
+        .from('usage_limits')
+        .select('function_name, user_id, requests_per_minute, requests_per_day, tokens_per_day'),
+      supabase
+        .from('function_usage')
+        .select('function_name, status_code, tokens_in, tokens_out')
+        .gte('created_at', since.toISOString()),
+    ]);
+
+    if (limitsResult.error) throw limitsResult.error;
+    if (recentResult.error) throw recentResult.error;
+
+    // A per-user row overrides the default row for the same function
+    const effective = new Map<string, (typeof limitsResult.data)[number]>();
+    for (const row of limitsResult.data || []) {
+      if (row.user_id || !effective.has(row.function_name)) {
+        effective.set(row.function_name, row);
+      }
+    }
+
+    const recent = recentResult.data || [];
+    return [...effective.values()]
+      .map(row => {
+        const calls = recent.filter(call => call.function_name === row.function_name);
+        return {
+          functionName: row.function_name,
+          requestsPerMinute: row.requests_per_minute,
+          requestsPerDay: row.requests_per_day,
+          tokensPerDay: row.tokens_per_day,
+          requestsLast24h: calls.filter(call => call.status_code !== 429).length,
+          tokensLast24h: calls.reduce((sum, call) => sum + call.tokens_in + call.tokens_out, 0),
+        };
+      })
+      .sort((a, b) => a.functionName.localeCompare(b.functionName));
+  };
+
+  const fetchUsage = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    const dayStart = new Date();
+    dayStart.setUTCHours(0, 0, 0, 0);
+    dayStart.setUTCDate(dayStart.getUTCDate() - (DAYS_SHOWN - 1));
+
+    const monthStart = new Date();
+    monthStart.setUTCHours(0, 0, 0, 0);
+    monthStart.setUTCDate(1);
+    monthStart.setUTCMonth(monthStart.getUTCMonth() - (MONTHS_SHOWN - 1));
+
+    try {
+      const [dailyPoints, monthlyPoints, currentLimits] = await Promise.all([
+        fetchSummary('day', dayStart),
+        fetchSummary('month', monthStart),
+        fetchLimits(),
+      ]);
+      setDaily(dailyPoints);
+      setMonthly(monthlyPoints);
+      setLimits(currentLimits);
+    } catch (error) {
+      console.error('Error loading usage:', error);
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    daily,
+    monthly,
+    limits,
+    loading,
+    error,
+    refresh: fetchUsage,
+  };
+}
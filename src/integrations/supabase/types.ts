@@ -14,29 +14,333 @@ export type Database = {
   }
   public: {
     Tables: {
+      chat_messages: {
+        Row: {
+          actions: Json
+          citations: Json
+          content: string
+          created_at: string
+          id: string
+          is_error: boolean
+          role: string
+          session_id: string
+          source_notes: Json
+          user_id: string
+        }
+        Insert: {
+          actions?: Json
+          citations?: Json
+          content: string
+          created_at?: string
+          id?: string
+          is_error?: boolean
+          role: string
+          session_id: string
+          source_notes?: Json
+          user_id: string
+        }
+        Update: {
+          actions?: Json
+          citations?: Json
+          content?: string
+          created_at?: string
+          id?: string
+          is_error?: boolean
+          role?: string
+          session_id?: string
+          source_notes?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_sessions: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      embedding_queue: {
+        Row: {
+          attempts: number
+          enqueued_at: string
+          last_error: string | null
+          locked_at: string | null
+          note_id: string
+          run_after: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          enqueued_at?: string
+          last_error?: string | null
+          locked_at?: string | null
+          note_id: string
+          run_after?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          enqueued_at?: string
+          last_error?: string | null
+          locked_at?: string | null
+          note_id?: string
+          run_after?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "embedding_queue_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      function_usage: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: string
+          latency_ms: number
+          status_code: number
+          tokens_in: number
+          tokens_out: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: string
+          latency_ms?: number
+          status_code: number
+          tokens_in?: number
+          tokens_out?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: string
+          latency_ms?: number
+          status_code?: number
+          tokens_in?: number
+          tokens_out?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      note_collab_state: {
+        Row: {
+          content: string
+          note_id: string
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          note_id: string
+          state: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          note_id?: string
+          state?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_collab_state_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: true
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_links: {
+        Row: {
+          created_at: string
+          id: string
+          source_note_id: string
+          target_note_id: string | null
+          target_title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          source_note_id: string
+          target_note_id?: string | null
+          target_title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          source_note_id?: string
+          target_note_id?: string | null
+          target_title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_links_source_note_id_fkey"
+            columns: ["source_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "note_links_target_note_id_fkey"
+            columns: ["target_note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_revisions: {
+        Row: {
+          content: string | null
+          created_at: string
+          id: string
+          note_id: string
+          saved_at: string
+          tags: string[]
+          title: string
+          user_id: string
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id: string
+          saved_at: string
+          tags?: string[]
+          title: string
+          user_id: string
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          id?: string
+          note_id?: string
+          saved_at?: string
+          tags?: string[]
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_revisions_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      note_shares: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          note_id: string
+          owner_email: string
+          owner_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          note_id: string
+          owner_email: string
+          owner_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          note_id?: string
+          owner_email?: string
+          owner_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "note_shares_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notes: {
         Row: {
+          code_languages: string[] | null
           content: string | null
           created_at: string
+          deleted_at: string | null
+          has_code: boolean | null
           id: string
+          search_vector: unknown | null
           tags: string[] | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          code_languages?: never
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          has_code?: never
           id?: string
+          search_vector?: never
           tags?: string[] | null
           title?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          code_languages?: never
           content?: string | null
           created_at?: string
+          deleted_at?: string | null
+          has_code?: never
           id?: string
+          search_vector?: never
           tags?: string[] | null
           title?: string
           updated_at?: string
@@ -46,32 +350,59 @@ export type Database = {
       }
       notes_embeddings: {
         Row: {
+          char_end: number | null
+          char_start: number | null
           chunk_index: number
+          code_language: string | null
           content_chunk: string
+          content_hash: string | null
           created_at: string
+          dimensions: number
           embedding: string | null
+          heading_path: string[]
           id: string
+          model: string
           note_id: string
+          provider: string
+          search_vector: unknown | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          char_end?: number | null
+          char_start?: number | null
           chunk_index?: number
+          code_language?: string | null
           content_chunk: string
+          content_hash?: string | null
           created_at?: string
+          dimensions?: number
           embedding?: string | null
+          heading_path?: string[]
           id?: string
+          model?: string
           note_id: string
+          provider?: string
+          search_vector?: never
           updated_at?: string
           user_id: string
         }
         Update: {
+          char_end?: number | null
+          char_start?: number | null
           chunk_index?: number
+          code_language?: string | null
           content_chunk?: string
+          content_hash?: string | null
           created_at?: string
+          dimensions?: number
           embedding?: string | null
+          heading_path?: string[]
           id?: string
+          model?: string
           note_id?: string
+          provider?: string
+          search_vector?: never
           updated_at?: string
           user_id?: string
         }
@@ -85,10 +416,107 @@ export type Database = {
           },
         ]
       }
+      reindex_job_items: {
+        Row: {
+          chunks_processed: number
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string
+          note_id: string
+          note_title: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chunks_processed?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id: string
+          note_id: string
+          note_title?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chunks_processed?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string
+          note_id?: string
+          note_title?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reindex_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "reindex_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reindex_job_items_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reindex_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          force: boolean
+          heartbeat_at: string
+          id: string
+          model: string
+          provider: string
+          status: string
+          total_notes: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          force?: boolean
+          heartbeat_at?: string
+          id?: string
+          model: string
+          provider: string
+          status?: string
+          total_notes?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          force?: boolean
+          heartbeat_at?: string
+          id?: string
+          model?: string
+          provider?: string
+          status?: string
+          total_notes?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       tasks: {
         Row: {
           completed: boolean
           created_at: string
+          deleted_at: string | null
           id: string
           linked_note_id: string | null
           priority: string
@@ -98,6 +526,7 @@ export type Database = {
         Insert: {
           completed?: boolean
           created_at?: string
+          deleted_at?: string | null
           id?: string
           linked_note_id?: string | null
           priority?: string
@@ -107,6 +536,7 @@ export type Database = {
         Update: {
           completed?: boolean
           created_at?: string
+          deleted_at?: string | null
           id?: string
           linked_note_id?: string | null
           priority?: string
@@ -123,25 +553,100 @@ export type Database = {
           },
         ]
       }
+      usage_limits: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: string
+          requests_per_day: number | null
+          requests_per_minute: number | null
+          tokens_per_day: number | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: string
+          requests_per_day?: number | null
+          requests_per_minute?: number | null
+          tokens_per_day?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: string
+          requests_per_day?: number | null
+          requests_per_minute?: number | null
+          tokens_per_day?: number | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_provider_keys: {
+        Row: {
+          created_at: string
+          id: string
+          last_four: string | null
+          provider: string
+          secret_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_four?: string | null
+          provider: string
+          secret_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_four?: string | null
+          provider?: string
+          secret_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_settings: {
         Row: {
           created_at: string
-          gemini_api_key: string | null
+          embedding_provider: string
           id: string
+          llm_endpoint: string | null
+          llm_model: string | null
+          llm_provider: string
+          trash_retention_days: number
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          gemini_api_key?: string | null
+          embedding_provider?: string
           id?: string
+          llm_endpoint?: string | null
+          llm_model?: string | null
+          llm_provider?: string
+          trash_retention_days?: number
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          gemini_api_key?: string | null
+          embedding_provider?: string
           id?: string
+          llm_endpoint?: string | null
+          llm_model?: string | null
+          llm_provider?: string
+          trash_retention_days?: number
           updated_at?: string
           user_id?: string
         }
@@ -156,6 +661,105 @@ export type Database = {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      can_access_note: {
+        Args: {
+          target_note_id: string
+        }
+        Returns: boolean
+      }
+      can_join_note_channel: {
+        Args: {
+          topic: string
+        }
+        Returns: boolean
+      }
+      check_rate_limit: {
+        Args: {
+          target_function: string
+          target_user_id: string
+        }
+        Returns: {
+          limit_name: string
+          limit_value: number
+          retry_after_seconds: number
+          used: number
+        }[]
+      }
+      claim_embedding_jobs: {
+        Args: {
+          batch_size: number
+        }
+        Returns: {
+          attempts: number
+          enqueued_at: string
+          last_error: string | null
+          locked_at: string | null
+          note_id: string
+          run_after: string
+          user_id: string
+        }[]
+      }
+      claim_reindex_items: {
+        Args: {
+          batch_size: number
+          target_job_id: string
+        }
+        Returns: {
+          chunks_processed: number
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string
+          note_id: string
+          note_title: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      code_fence_languages: {
+        Args: {
+          content: string
+        }
+        Returns: string[]
+      }
+      delete_provider_key: {
+        Args: {
+          target_provider: string
+        }
+        Returns: undefined
+      }
+      extract_note_links: {
+        Args: {
+          content: string
+        }
+        Returns: string[]
+      }
+      get_provider_keys: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: {
+          api_key: string
+          provider: string
+        }[]
+      }
+      get_usage_summary: {
+        Args: {
+          bucket: string
+          since: string
+        }
+        Returns: {
+          avg_latency_ms: number
+          bucket_start: string
+          errors: number
+          function_name: string
+          rejected: number
+          requests: number
+          tokens_in: number
+          tokens_out: number
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -188,6 +792,35 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      hybrid_search_embeddings: {
+        Args: {
+          candidate_count?: number
+          embedding_model: string
+          filter_note_ids?: string[]
+          filter_tags?: string[]
+          match_count: number
+          match_threshold?: number
+          query_embedding: string
+          query_text: string
+          rrf_k?: number
+          updated_after?: string
+          updated_before?: string
+          user_id: string
+        }
+        Returns: {
+          char_end: number
+          char_start: number
+          chunk_id: string
+          chunk_index: number
+          code_language: string
+          content_chunk: string
+          heading_path: string[]
+          keyword_rank: number
+          note_id: string
+          score: number
+          similarity: number
+        }[]
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -210,17 +843,124 @@ export type Database = {
       }
       match_embeddings: {
         Args: {
+          embedding_model: string
           match_count: number
           match_threshold: number
           query_embedding: string
           user_id: string
         }
         Returns: {
+          code_language: string
           content_chunk: string
+          heading_path: string[]
+          note_id: string
+          similarity: number
+        }[]
+      }
+      notes_search_query: {
+        Args: {
+          query_text: string
+        }
+        Returns: unknown
+      }
+      related_notes: {
+        Args: {
+          candidate_count?: number
+          match_count?: number
+          match_threshold?: number
+          target_note_id: string
+        }
+        Returns: {
+          char_end: number
+          char_start: number
+          heading_path: string[]
+          matching_chunks: number
           note_id: string
           similarity: number
+          snippet: string
+          title: string
         }[]
       }
+      rename_note_links: {
+        Args: {
+          new_title: string
+          old_title: string
+          target_note_id: string
+        }
+        Returns: number
+      }
+      save_collab_note: {
+        Args: {
+          content: string
+          state: string
+          target_note_id: string
+        }
+        Returns: {
+          code_languages: string[] | null
+          content: string | null
+          created_at: string
+          deleted_at: string | null
+          has_code: boolean | null
+          id: string
+          search_vector: unknown | null
+          tags: string[] | null
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      search_notes: {
+        Args: {
+          created_after?: string
+          created_before?: string
+          exclude_languages?: string[]
+          exclude_tags?: string[]
+          filter_languages?: string[]
+          filter_tags?: string[]
+          match_count?: number
+          query_text?: string
+          require_code?: boolean
+          require_tags?: boolean
+          require_tasks?: boolean
+          updated_after?: string
+          updated_before?: string
+        }
+        Returns: {
+          id: string
+          rank: number
+          snippet: string
+          tags: string[]
+          title: string
+          title_highlight: string
+          updated_at: string
+        }[]
+      }
+      set_provider_key: {
+        Args: {
+          api_key: string
+          target_provider: string
+        }
+        Returns: {
+          last_four: string
+          provider: string
+          updated_at: string
+        }[]
+      }
+      share_note: {
+        Args: {
+          email: string
+          target_note_id: string
+        }
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          note_id: string
+          owner_email: string
+          owner_id: string
+          user_id: string | null
+        }
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -233,6 +973,20 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      store_note_collab_state: {
+        Args: {
+          content: string
+          state: string
+          target_note_id: string
+        }
+        Returns: undefined
+      }
+      tags_to_text: {
+        Args: {
+          tags: string[]
+        }
+        Returns: string
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
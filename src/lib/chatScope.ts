@@ -0,0 +1,41 @@
+import { addDays, parseISO } from 'date-fns';
+import type { ChatScope } from './chatStream';
+
+// What the chat scope picker has selected, and how it maps onto the
+// retrieval filters sent with each chat request.
+
+export type ChatScopeMode = 'all' | 'current' | 'tags' | 'notes';
+
+export interface ChatScopeSelection {
+  mode: ChatScopeMode;
+  tags: string[];
+  noteIds: string[];
+  // yyyy-MM-dd from the date inputs, both inclusive
+  updatedFrom: string;
+  updatedTo: string;
+}
+
+export function defaultScopeSelection(activeNoteId?: string | null): ChatScopeSelection {
+  return { mode: activeNoteId ? 'current' : 'all', tags: [], noteIds: [], updatedFrom: '', updatedTo: '' };
+}
+
+// "Current note" follows whichever note is open, and falls back to all notes without one
+export function toChatScope(selection: ChatScopeSelection, activeNoteId?: string | null): ChatScope {
+  const scope: ChatScope = {};
+
+  if (selection.mode === 'current' && activeNoteId) {
+    scope.noteIds = [activeNoteId];
+  } else if (selection.mode === 'notes' && selection.noteIds.length > 0) {
+    scope.noteIds = selection.noteIds;
+  } else if (selection.mode === 'tags' && selection.tags.length > 0) {
+    scope.tags = selection.tags;
+  }
+
+  if (selection.updatedFrom) {
+    scope.updatedAfter = parseISO(selection.updatedFrom).toISOString();
+  }
+  if (selection.updatedTo) {
+    scope.updatedBefore = addDays(parseISO(selection.updatedTo), 1).toISOString();
+  }
+  return scope;
+}
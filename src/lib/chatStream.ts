@@ -0,0 +1,160 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// supabase.functions.invoke cannot be aborted, so streaming chat calls the
+// function endpoint directly and reads its Server-Sent Events.
+const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+export interface ChatSourceNote {
+  id: string;
+  title: string;
+  similarity?: number;
+  sections?: string[];
+}
+
+// A numbered passage the assistant can cite inline as [n]
+export interface ChatCitation {
+  number: number;
+  noteId: string;
+  noteTitle: string;
+  chunkId: string;
+  section: string;
+  charStart: number | null;
+  charEnd: number | null;
+}
+
+export interface ChatSources {
+  sourceNotes: ChatSourceNote[];
+  citations: ChatCitation[];
+}
+
+// Restricts which notes chat retrieval searches; unset filters are ignored
+export interface ChatScope {
+  noteIds?: string[];
+  tags?: string[];
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+export type ChatActionProposal =
+  | {
+    type: 'create_task';
+    title: string;
+    priority: 'low' | 'medium' | 'high';
+    linkedNoteId: string | null;
+    linkedNoteTitle: string | null;
+  }
+  | {
+    type: 'append_to_note';
+    noteId: string;
+    noteTitle: string;
+    content: string;
+  };
+
+export type ChatActionStatus = 'pending' | 'applied' | 'dismissed';
+
+// A proposal from the assistant; nothing happens until the user confirms it
+export type ChatAction = ChatActionProposal & {
+  id: string;
+  status: ChatActionStatus;
+};
+
+export interface ChatStreamHandlers {
+  onSources?: (sources: ChatSources) => void;
+  onToken: (text: string) => void;
+  onActions?: (actions: ChatAction[]) => void;
+}
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+function parseSseBlock(block: string): SseEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const event = parseSseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        if (event) yield event;
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+
+    const trailing = parseSseBlock(buffer);
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export async function streamChat(
+  functionName: string,
+  body: Record<string, unknown>,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You must be signed in to chat');
+
+  const response = await fetch(`${FUNCTIONS_URL}/${functionName}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || `Chat request failed (${response.status})`);
+  }
+
+  for await (const { event, data } of readSseEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === 'sources') {
+      handlers.onSources?.({
+        sourceNotes: payload.sourceNotes || [],
+        citations: payload.citations || [],
+      });
+    } else if (event === 'token') {
+      handlers.onToken(payload.text);
+    } else if (event === 'actions') {
+      handlers.onActions?.((payload.actions || []).map((proposal: ChatActionProposal) => ({
+        ...proposal,
+        id: crypto.randomUUID(),
+        status: 'pending',
+      })));
+    } else if (event === 'error') {
+      throw new Error(payload.error);
+    } else if (event === 'done') {
+      return;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import * as Y from 'yjs';
+
+// The Y.Text holding a shared note's content
+export const COLLAB_TEXT_NAME = 'content';
+
+const COLLABORATOR_COLORS = [
+  '#e11d48', '#ea580c', '#ca8a04', '#16a34a',
+  '#0891b2', '#2563eb', '#7c3aed', '#c026d3',
+];
+
+// FNV-1a, kept within Yjs' unsigned 32-bit client ids
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// A document holding `content` as one insert made under a client id derived
+// from the text. Everyone who starts a session from the same saved text gets
+// identical items, which Yjs merges instead of duplicating the text.
+export function seedUpdate(content: string) {
+  const doc = new Y.Doc();
+  doc.clientID = hashString(content) || 1;
+  doc.getText(COLLAB_TEXT_NAME).insert(0, content);
+  const update = Y.encodeStateAsUpdate(doc);
+  doc.destroy();
+  return update;
+}
+
+// Turns a textarea edit into the smallest delete + insert on the shared text,
+// so concurrent edits elsewhere in the note are kept
+export function applyTextChange(text: Y.Text, next: string) {
+  const current = text.toString();
+  if (current === next) return;
+
+  let start = 0;
+  const maxStart = Math.min(current.length, next.length);
+  while (start < maxStart && current[start] === next[start]) start++;
+
+  let end = 0;
+  const maxEnd = Math.min(current.length, next.length) - start;
+  while (end < maxEnd && current[current.length - 1 - end] === next[next.length - 1 - end]) end++;
+
+  text.doc?.transact(() => {
+    const removed = current.length - start - end;
+    if (removed > 0) text.delete(start, removed);
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) text.insert(start, inserted);
+  });
+}
+
+// Cursor offsets travel as relative positions so they stay on the same
+// character while other edits shift the text
+export function encodeCursor(text: Y.Text, index: number): unknown {
+  return Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, index));
+}
+
+export function decodeCursor(doc: Y.Doc, encoded: unknown): number | null {
+  if (!encoded) return null;
+  const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(encoded), doc);
+  return absolute ? absolute.index : null;
+}
+
+export function collaboratorColor(userId: string) {
+  return COLLABORATOR_COLORS[hashString(userId) % COLLABORATOR_COLORS.length];
+}
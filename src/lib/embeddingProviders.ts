@@ -0,0 +1,45 @@
+// Mirrors the registry in supabase/functions/_shared/embeddings.ts
+export type EmbeddingProviderId = 'local-hash' | 'local-onnx' | 'gemini' | 'huggingface';
+
+export interface EmbeddingProviderOption {
+  id: EmbeddingProviderId;
+  label: string;
+  model: string;
+  dimensions: number;
+  description: string;
+  requiresGeminiKey?: boolean;
+}
+
+export const DEFAULT_EMBEDDING_PROVIDER: EmbeddingProviderId = 'local-onnx';
+
+export const embeddingProviders: EmbeddingProviderOption[] = [
+  {
+    id: 'local-onnx',
+    label: 'Local MiniLM (ONNX)',
+    model: 'Xenova/all-MiniLM-L6-v2',
+    dimensions: 384,
+    description: 'Sentence-transformer running inside the edge function. Free, no API key.',
+  },
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    model: 'text-embedding-004',
+    dimensions: 768,
+    description: 'Highest quality. Uses your Gemini API key and quota.',
+    requiresGeminiKey: true,
+  },
+  {
+    id: 'huggingface',
+    label: 'HuggingFace Inference API',
+    model: 'sentence-transformers/all-MiniLM-L6-v2',
+    dimensions: 384,
+    description: 'Same model as local MiniLM, hosted by HuggingFace. Rate limited.',
+  },
+  {
+    id: 'local-hash',
+    label: 'Local hashing (legacy)',
+    model: 'local-hash-v1',
+    dimensions: 384,
+    description: 'Word and trigram hashing. Fast but only matches overlapping words.',
+  },
+];
@@ -0,0 +1,128 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers; absent on the side the line doesn't exist in
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string) => (text === '' ? [] : text.split('\n'));
+
+// Past this many changed lines a full rewrite is assumed and the changed
+// region is shown as removed-then-added, keeping memory bounded
+const MAX_EDIT_DISTANCE = 2000;
+
+// Line diff using Myers' O(ND) algorithm, so revisions that differ in a few
+// lines stay cheap however long the note is
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+  result.push(...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), prefix));
+  for (let i = suffix; i > 0; i--) {
+    result.push({
+      type: 'same',
+      text: a[a.length - i],
+      oldLine: a.length - i + 1,
+      newLine: b.length - i + 1,
+    });
+  }
+  return result;
+}
+
+function diffMiddle(a: string[], b: string[], lineOffset: number): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffLine[] => [
+    ...a.map((text, i) => ({ type: 'removed' as const, text, oldLine: lineOffset + i + 1 })),
+    ...b.map((text, i) => ({ type: 'added' as const, text, newLine: lineOffset + i + 1 })),
+  ];
+  if (n === 0 || m === 0) return replaceAll();
+
+  // v[k + offset] is the furthest x reached on diagonal k. The part of v a
+  // round can read is saved before it runs, to walk the path back afterwards.
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset])
+        ? v[k + 1 + offset]
+        : v[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + offset] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return replaceAll();
+
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // trace[d] covers diagonals -d-1..d+1
+    const at = (k: number) => trace[d][k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ type: 'same', text: a[x - 1], oldLine: lineOffset + x, newLine: lineOffset + y });
+      x--;
+      y--;
+    }
+    if (d === 0) break;
+    if (x === prevX) {
+      result.push({ type: 'added', text: b[y - 1], newLine: lineOffset + y });
+    } else {
+      result.push({ type: 'removed', text: a[x - 1], oldLine: lineOffset + x });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return result.reverse();
+}
+
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce(
+    (summary, line) => {
+      if (line.type === 'added') summary.added++;
+      if (line.type === 'removed') summary.removed++;
+      return summary;
+    },
+    { added: 0, removed: 0 }
+  );
+}
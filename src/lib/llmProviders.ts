@@ -0,0 +1,44 @@
+// Mirrors the registry in supabase/functions/_shared/llm.ts
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface LlmProviderOption {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  description: string;
+  requiresGeminiKey?: boolean;
+  acceptsApiKey?: boolean;
+}
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = 'gemini';
+
+export const llmProviders: LlmProviderOption[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    defaultModel: 'gemini-1.5-flash',
+    defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta',
+    description: 'Uses your Gemini API key above.',
+    requiresGeminiKey: true,
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    defaultModel: 'gpt-4o-mini',
+    defaultEndpoint: 'https://api.openai.com/v1',
+    description: 'OpenAI, OpenRouter, LM Studio, vLLM or llama.cpp (http://host:8080/v1).',
+    acceptsApiKey: true,
+  },
+  {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    defaultModel: 'llama3.2',
+    defaultEndpoint: 'http://localhost:11434',
+    description: 'A local Ollama server. The endpoint must be reachable from the edge functions.',
+  },
+];
+
+export function getLlmProviderOption(id?: string | null): LlmProviderOption {
+  return llmProviders.find(provider => provider.id === id) ?? llmProviders[0];
+}
@@ -0,0 +1,25 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+interface SyncedRow {
+  id: string;
+  deleted_at?: string | null;
+}
+
+// Applies one Realtime change to rows held in hook state. Our own mutations
+// come back as changes too, so inserts replace any copy already present.
+// Rows moved to the trash leave the list; restored rows come back.
+export function mergeRealtimeChange<T extends SyncedRow>(
+  rows: T[],
+  payload: RealtimePostgresChangesPayload<T>,
+  compare: (a: T, b: T) => number
+): T[] {
+  if (payload.eventType === 'DELETE') {
+    const removedId = (payload.old as Partial<T>).id;
+    return rows.filter(row => row.id !== removedId);
+  }
+
+  const row = payload.new as T;
+  const others = rows.filter(existing => existing.id !== row.id);
+  if (row.deleted_at) return others;
+  return [...others, row].sort(compare);
+}
@@ -0,0 +1,370 @@
+import { addDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+
+// The note search query language. Free text and "quoted phrases" go to the
+// full-text search; filters narrow the notes it looks at:
+//
+//   tag:rust  lang:python  has:code|tasks|tags
+//   updated:>2025-01-01  created:<=2025-06-30  before:2025-01-01  after:2024-12-31
+//
+// Any term or filter can be negated with a leading -, `or` between two terms
+// matches either, and word* matches a prefix.
+
+export type SearchFilterKey = 'tag' | 'lang' | 'has' | 'updated' | 'created' | 'before' | 'after';
+
+export type HasValue = 'code' | 'tasks' | 'tags';
+
+export type DateOperator = '>' | '>=' | '<' | '<=' | '=';
+
+interface ClauseBase {
+  // Character range in the input, for errors and autocomplete
+  start: number;
+  end: number;
+}
+
+export type SearchClause =
+  | (ClauseBase & { kind: 'term'; value: string; negated: boolean; prefix: boolean })
+  | (ClauseBase & { kind: 'phrase'; value: string; negated: boolean })
+  | (ClauseBase & { kind: 'or' })
+  | (ClauseBase & { kind: 'tag'; value: string; negated: boolean })
+  | (ClauseBase & { kind: 'lang'; value: string; negated: boolean })
+  | (ClauseBase & { kind: 'has'; value: HasValue; negated: boolean })
+  | (ClauseBase & { kind: 'date'; field: 'updated' | 'created'; operator: DateOperator; date: string });
+
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[];
+  errors: SearchQueryError[];
+}
+
+// Arguments for the search_notes RPC
+export interface NoteSearchArgs {
+  query_text: string;
+  filter_tags?: string[];
+  exclude_tags?: string[];
+  filter_languages?: string[];
+  exclude_languages?: string[];
+  require_code?: boolean;
+  require_tasks?: boolean;
+  require_tags?: boolean;
+  updated_after?: string;
+  updated_before?: string;
+  created_after?: string;
+  created_before?: string;
+}
+
+export interface SearchFacets {
+  tags: string[];
+  languages: string[];
+}
+
+export interface SearchSuggestion {
+  label: string;
+  // The whole input with the suggestion applied, and where the caret goes
+  value: string;
+  cursor: number;
+}
+
+export const FILTER_KEYS: SearchFilterKey[] = ['tag', 'lang', 'has', 'updated', 'created', 'before', 'after'];
+
+const KEY_ALIASES: Record<string, SearchFilterKey> = { language: 'lang', tags: 'tag' };
+
+export const HAS_VALUES: HasValue[] = ['code', 'tasks', 'tags'];
+
+const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4}-\d{2}-\d{2})$/;
+
+// Same fence syntax as the chunker and code_fence_languages in the database
+const FENCE_LANGUAGE_REGEX = /^[ \t]*(?:`{3,}|~{3,})[ \t]*([\w+#.-]+)/gm;
+
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  negated: boolean;
+  quoted: boolean;
+  unterminated: boolean;
+  key?: string;
+}
+
+// Split on whitespace, keeping "quoted text" and key:"quoted values" whole
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    let key: string | undefined;
+    const keyMatch = /^([a-z]+):/i.exec(input.slice(i));
+    if (keyMatch && !input.startsWith('//', i + keyMatch[0].length)) {
+      key = keyMatch[1].toLowerCase();
+      i += keyMatch[0].length;
+    }
+
+    let text = '';
+    let quoted = false;
+    let unterminated = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      unterminated = close === -1;
+      text = input.slice(i + 1, unterminated ? input.length : close);
+      i = unterminated ? input.length : close + 1;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) {
+        text += input[i];
+        i++;
+      }
+    }
+
+    tokens.push({ text, start, end: i, negated, quoted, unterminated, key });
+  }
+
+  return tokens;
+}
+
+function parseDate(value: string): Date | null {
+  const date = parseISO(value);
+  // parseISO rolls 2025-02-30 over into March; reject it instead
+  return isValid(date) && value === format(date, 'yyyy-MM-dd') ? date : null;
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = [];
+  const errors: SearchQueryError[] = [];
+
+  for (const token of tokenize(input)) {
+    const { start, end, negated } = token;
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (token.unterminated) {
+      fail('Missing closing quote');
+    }
+
+    if (token.key === undefined) {
+      if (token.quoted) {
+        if (token.text.trim()) {
+          clauses.push({ kind: 'phrase', value: token.text.trim(), negated, start, end });
+        }
+      } else if (token.text.toLowerCase() === 'or' && !negated) {
+        clauses.push({ kind: 'or', start, end });
+      } else {
+        const prefix = token.text.endsWith('*');
+        const value = prefix ? token.text.slice(0, -1) : token.text;
+        if (value) {
+          clauses.push({ kind: 'term', value, negated, prefix, start, end });
+        }
+      }
+      continue;
+    }
+
+    const key = KEY_ALIASES[token.key] ?? token.key;
+    const value = token.text.trim();
+
+    if (!FILTER_KEYS.includes(key as SearchFilterKey)) {
+      fail(`Unknown filter "${token.key}:". Try ${FILTER_KEYS.map(name => `${name}:`).join(', ')}`);
+      continue;
+    }
+    if (!value) {
+      fail(`${key}: needs a value`);
+      continue;
+    }
+
+    switch (key as SearchFilterKey) {
+      case 'tag':
+        clauses.push({ kind: 'tag', value, negated, start, end });
+        break;
+      case 'lang':
+        clauses.push({ kind: 'lang', value: value.toLowerCase(), negated, start, end });
+        break;
+      case 'has': {
+        const has = value.toLowerCase() as HasValue;
+        if (!HAS_VALUES.includes(has)) {
+          fail(`has: expects ${HAS_VALUES.join(', ')}`);
+        } else {
+          clauses.push({ kind: 'has', value: has, negated, start, end });
+        }
+        break;
+      }
+      case 'updated':
+      case 'created':
+      case 'before':
+      case 'after': {
+        const match = DATE_PATTERN.exec(value);
+        const plain = key === 'before' || key === 'after';
+        if (!match || (plain && match[1]) || !parseDate(match[2])) {
+          fail(plain
+            ? `${key}: expects a date like 2025-01-31`
+            : `${key}: expects a date like 2025-01-31, optionally prefixed with >, >=, < or <=`);
+          break;
+        }
+        if (negated) {
+          fail(`${key}: can't be negated; use the opposite comparison`);
+          break;
+        }
+        clauses.push({
+          kind: 'date',
+          field: plain ? 'updated' : (key as 'updated' | 'created'),
+          operator: key === 'before' ? '<' : key === 'after' ? '>' : (match[1] as DateOperator) ?? '=',
+          date: match[2],
+          start,
+          end,
+        });
+        break;
+      }
+    }
+  }
+
+  const args = compileSearchQuery({ clauses, errors: [] });
+  for (const field of ['updated', 'created'] as const) {
+    const after = args[`${field}_after`];
+    const before = args[`${field}_before`];
+    if (after && before && after >= before) {
+      const last = clauses.filter(clause => clause.kind === 'date' && clause.field === field).pop()!;
+      errors.push({ message: `${field}: the date range is empty`, start: last.start, end: last.end });
+    }
+  }
+
+  return { clauses, errors };
+}
+
+// Half-open [after, before) bounds for one date comparison, in local days
+function dateBounds(operator: DateOperator, date: string): { after?: Date; before?: Date } {
+  const day = startOfDay(parseISO(date));
+  const nextDay = addDays(day, 1);
+  switch (operator) {
+    case '>': return { after: nextDay };
+    case '>=': return { after: day };
+    case '<': return { before: day };
+    case '<=': return { before: nextDay };
+    case '=': return { after: day, before: nextDay };
+  }
+}
+
+// Turn the parsed query into search_notes arguments. Free text is handed back
+// in websearch syntax; repeated filters must all match.
+export function compileSearchQuery(query: ParsedSearchQuery): NoteSearchArgs {
+  const args: NoteSearchArgs = { query_text: '' };
+  const text: string[] = [];
+  const add = (list: 'filter_tags' | 'exclude_tags' | 'filter_languages' | 'exclude_languages', value: string) => {
+    const values = args[list] ?? [];
+    if (!values.includes(value)) {
+      args[list] = [...values, value];
+    }
+  };
+  const bounds: Record<'updated' | 'created', { after?: Date; before?: Date }> = { updated: {}, created: {} };
+
+  for (const clause of query.clauses) {
+    switch (clause.kind) {
+      case 'term':
+        text.push(`${clause.negated ? '-' : ''}${clause.value}${clause.prefix ? '*' : ''}`);
+        break;
+      case 'phrase':
+        text.push(`${clause.negated ? '-' : ''}"${clause.value}"`);
+        break;
+      case 'or':
+        text.push('or');
+        break;
+      case 'tag':
+        add(clause.negated ? 'exclude_tags' : 'filter_tags', clause.value);
+        break;
+      case 'lang':
+        add(clause.negated ? 'exclude_languages' : 'filter_languages', clause.value);
+        break;
+      case 'has':
+        args[clause.value === 'code' ? 'require_code' : clause.value === 'tasks' ? 'require_tasks' : 'require_tags'] = !clause.negated;
+        break;
+      case 'date': {
+        const range = bounds[clause.field];
+        const { after, before } = dateBounds(clause.operator, clause.date);
+        if (after && (!range.after || after > range.after)) range.after = after;
+        if (before && (!range.before || before < range.before)) range.before = before;
+        break;
+      }
+    }
+  }
+
+  args.query_text = text.join(' ');
+  for (const field of ['updated', 'created'] as const) {
+    if (bounds[field].after) args[`${field}_after`] = bounds[field].after!.toISOString();
+    if (bounds[field].before) args[`${field}_before`] = bounds[field].before!.toISOString();
+  }
+
+  return args;
+}
+
+// Search as you type: the word still being typed matches as a prefix
+export function withTrailingPrefix(query: ParsedSearchQuery, input: string): ParsedSearchQuery {
+  const last = query.clauses[query.clauses.length - 1];
+  if (!last || last.kind !== 'term' || last.negated || last.prefix || last.end !== input.length) {
+    return query;
+  }
+  return { ...query, clauses: [...query.clauses.slice(0, -1), { ...last, prefix: true }] };
+}
+
+export function extractCodeLanguages(content: string): string[] {
+  const languages = new Set<string>();
+  for (const match of content.matchAll(FENCE_LANGUAGE_REGEX)) {
+    languages.add(match[1].toLowerCase());
+  }
+  return [...languages];
+}
+
+export function collectSearchFacets(notes: { tags: string[]; content: string }[]): SearchFacets {
+  const tags = new Set<string>();
+  const languages = new Set<string>();
+  for (const note of notes) {
+    note.tags.forEach(tag => tags.add(tag));
+    extractCodeLanguages(note.content || '').forEach(language => languages.add(language));
+  }
+  return { tags: [...tags].sort(), languages: [...languages].sort() };
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Completions for the token under the caret: filter names, then tag names,
+// code languages and has: values taken from the user's notes
+export function getSearchSuggestions(input: string, cursor: number, facets: SearchFacets): SearchSuggestion[] {
+  const tokenStart = input.slice(0, cursor).search(/\S*$/);
+  const tokenEnd = cursor + (input.slice(cursor).match(/^\S*/)?.[0].length ?? 0);
+  const token = input.slice(tokenStart, cursor);
+  if (!token) return [];
+
+  const negation = token.startsWith('-') ? '-' : '';
+  const body = token.slice(negation.length);
+  const replace = (replacement: string) => {
+    const value = input.slice(0, tokenStart) + replacement + input.slice(tokenEnd);
+    return { value, cursor: tokenStart + replacement.length };
+  };
+
+  const filter = /^([a-z]+):(.*)$/i.exec(body);
+  if (!filter) {
+    return FILTER_KEYS
+      .filter(key => key.startsWith(body.toLowerCase()) && key !== body.toLowerCase())
+      .map(key => ({ label: `${key}:`, ...replace(`${negation}${key}:`) }));
+  }
+
+  const key = KEY_ALIASES[filter[1].toLowerCase()] ?? filter[1].toLowerCase();
+  const partial = filter[2].replace(/^"/, '').toLowerCase();
+  const values = key === 'tag' ? facets.tags : key === 'lang' ? facets.languages : key === 'has' ? HAS_VALUES : [];
+
+  return values
+    .filter(value => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(value => {
+      const quoted = /\s/.test(value) ? `"${value}"` : value;
+      const separator = /^\s/.test(input.slice(tokenEnd)) ? '' : ' ';
+      return { label: `${key}:${value}`, ...replace(`${negation}${key}:${quoted}${separator}`) };
+    });
+}
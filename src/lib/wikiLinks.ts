@@ -0,0 +1,85 @@
+// [[Note Title]] links between notes. The database parses the same syntax
+// (extract_note_links) to keep note_links and backlinks up to date, so keep
+// the two patterns in step.
+const WIKI_LINK_PATTERN = /\[\[([^[\]\n]+)\]\]/g;
+
+export type WikiLinkSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link'; title: string };
+
+export interface OpenWikiLink {
+  // Index of the opening [[
+  start: number;
+  // What has been typed after [[ so far
+  query: string;
+}
+
+export interface LinkableNote {
+  id: string;
+  title: string;
+}
+
+// Splits a line of text into plain runs and links, for rendering
+export function splitWikiLinks(text: string): WikiLinkSegment[] {
+  const segments: WikiLinkSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim();
+    if (!title) continue;
+    if (match.index! > last) {
+      segments.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    segments.push({ type: 'link', title });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ type: 'text', text: text.slice(last) });
+  }
+  return segments;
+}
+
+// Titles match case-insensitively, as in the database
+export function resolveWikiLink<T extends LinkableNote>(title: string, notes: T[]): T | undefined {
+  const key = title.trim().toLowerCase();
+  return notes.find(note => note.title.trim().toLowerCase() === key);
+}
+
+// The link being typed at the cursor: an unclosed [[ earlier on the same line
+export function findOpenWikiLink(text: string, cursor: number): OpenWikiLink | null {
+  const lineStart = text.lastIndexOf('\n', cursor - 1) + 1;
+  const before = text.slice(lineStart, cursor);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) return null;
+
+  const query = before.slice(open + 2);
+  if (query.includes(']]') || query.includes('[')) return null;
+  return { start: lineStart + open, query };
+}
+
+// Notes whose titles match what has been typed: prefix matches first, then
+// titles containing it, excluding the note being edited
+export function getWikiLinkSuggestions<T extends LinkableNote>(
+  query: string,
+  notes: T[],
+  excludeId?: string,
+  limit = 6
+): T[] {
+  const needle = query.trim().toLowerCase();
+  const candidates = notes.filter(note => note.id !== excludeId && note.title.trim());
+  const prefix = candidates.filter(note => note.title.toLowerCase().startsWith(needle));
+  const contains = candidates.filter(note =>
+    !note.title.toLowerCase().startsWith(needle) && note.title.toLowerCase().includes(needle)
+  );
+  return [...prefix, ...contains].slice(0, limit);
+}
+
+// Replaces the link being typed with a complete [[title]], consuming a
+// closing ]] that is already there, and puts the cursor after it
+export function completeWikiLink(text: string, link: OpenWikiLink, cursor: number, title: string) {
+  const end = text.startsWith(']]', cursor) ? cursor + 2 : cursor;
+  const inserted = `[[${title}]]`;
+  return {
+    value: text.slice(0, link.start) + inserted + text.slice(end),
+    cursor: link.start + inserted.length,
+  };
+}
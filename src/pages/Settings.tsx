@@ -1,23 +1,40 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useEmbeddings } from '@/hooks/useEmbeddings';
+import { useProviderKeys } from '@/hooks/useProviderKeys';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Eye, EyeOff, ArrowLeft, BookOpen, Sparkles } from 'lucide-react';
+import { ArrowLeft, BookOpen, Sparkles } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ReindexPanel } from '@/components/ReindexPanel';
+import { ProviderKeyField } from '@/components/ProviderKeyField';
+import { UsagePanel } from '@/components/UsagePanel';
+import {
+  DEFAULT_EMBEDDING_PROVIDER,
+  EmbeddingProviderId,
+  embeddingProviders
+} from '@/lib/embeddingProviders';
+import { DEFAULT_LLM_PROVIDER, LlmProviderId, getLlmProviderOption, llmProviders } from '@/lib/llmProviders';
 
 export default function Settings() {
-  const [geminiApiKey, setGeminiApiKey] = useState('');
-  const [showApiKey, setShowApiKey] = useState(false);
+  const [embeddingProvider, setEmbeddingProvider] = useState<EmbeddingProviderId>(DEFAULT_EMBEDDING_PROVIDER);
+  const [savedEmbeddingProvider, setSavedEmbeddingProvider] = useState<EmbeddingProviderId>(DEFAULT_EMBEDDING_PROVIDER);
+  const [llmProvider, setLlmProvider] = useState<LlmProviderId>(DEFAULT_LLM_PROVIDER);
+  const [llmModel, setLlmModel] = useState('');
+  const [llmEndpoint, setLlmEndpoint] = useState('');
   const [loading, setLoading] = useState(false);
   const [loadingSettings, setLoadingSettings] = useState(true);
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { reindexEmbeddings } = useEmbeddings();
+  const { keys, loading: loadingKeys, saveKey, deleteKey } = useProviderKeys();
 
   useEffect(() => {
     if (!user) {
@@ -31,7 +48,7 @@ export default function Settings() {
     try {
       const { data, error } = await supabase
         .from('user_settings')
-        .select('gemini_api_key')
+        .select('embedding_provider, llm_provider, llm_model, llm_endpoint')
         .eq('user_id', user?.id)
         .single();
 
@@ -39,9 +56,16 @@ export default function Settings() {
         throw error;
       }
 
-      if (data?.gemini_api_key) {
-        setGeminiApiKey(data.gemini_api_key);
+      if (data?.embedding_provider) {
+        setEmbeddingProvider(data.embedding_provider as EmbeddingProviderId);
+        setSavedEmbeddingProvider(data.embedding_provider as EmbeddingProviderId);
       }
+
+      if (data?.llm_provider) {
+        setLlmProvider(data.llm_provider as LlmProviderId);
+      }
+      setLlmModel(data?.llm_model || '');
+      setLlmEndpoint(data?.llm_endpoint || '');
     } catch (error: any) {
       toast({
         title: "Error",
@@ -55,6 +79,25 @@ export default function Settings() {
 
   const handleSaveSettings = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (embeddingProviders.find(p => p.id === embeddingProvider)?.requiresGeminiKey && !keys.gemini) {
+      toast({
+        title: "Gemini API key required",
+        description: "Add your Gemini API key to use Gemini embeddings.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (getLlmProviderOption(llmProvider).requiresGeminiKey && !keys.gemini) {
+      toast({
+        title: "Gemini API key required",
+        description: "Add your Gemini API key to chat with Gemini, or pick another chat model.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -62,7 +105,11 @@ export default function Settings() {
         .from('user_settings')
         .upsert({
           user_id: user?.id,
-          gemini_api_key: geminiApiKey,
+          embedding_provider: embeddingProvider,
+          llm_provider: llmProvider,
+          // Blank fields fall back to the provider's defaults
+          llm_model: llmModel.trim() || null,
+          llm_endpoint: llmEndpoint.trim() || null,
         }, {
           onConflict: 'user_id'
         });
@@ -71,8 +118,27 @@ export default function Settings() {
 
       toast({
         title: "Settings saved!",
-        description: "Your Gemini API key has been securely stored.",
+        description: "Your AI settings have been updated.",
       });
+
+      // Vectors from different models can't be compared, so rebuild the index
+      if (embeddingProvider !== savedEmbeddingProvider) {
+        setSavedEmbeddingProvider(embeddingProvider);
+        reindexEmbeddings()
+          .then(() => {
+            toast({
+              title: "Re-indexing notes",
+              description: "Your notes are being re-embedded in the background.",
+            });
+          })
+          .catch((reindexError: Error) => {
+            toast({
+              title: "Re-index failed",
+              description: reindexError.message,
+              variant: "destructive",
+            });
+          });
+      }
     } catch (error: any) {
       toast({
         title: "Error",
@@ -84,7 +150,7 @@ export default function Settings() {
     }
   };
 
-  if (loadingSettings) {
+  if (loadingSettings || loadingKeys) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="flex items-center space-x-2">
@@ -132,35 +198,100 @@ export default function Settings() {
 
             <form onSubmit={handleSaveSettings} className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="gemini-api-key">Google Gemini API Key</Label>
-                <div className="relative">
+                <ProviderKeyField
+                  id="gemini-api-key"
+                  label="Google Gemini API Key"
+                  placeholder="Enter your Gemini API key"
+                  status={keys.gemini}
+                  onSave={(apiKey) => saveKey('gemini', apiKey)}
+                  onDelete={() => deleteKey('gemini')}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Your API key is encrypted at rest and never sent back to the browser. It's only used for AI features.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="embedding-provider">Embedding Provider</Label>
+                <Select
+                  value={embeddingProvider}
+                  onValueChange={(value) => setEmbeddingProvider(value as EmbeddingProviderId)}
+                >
+                  <SelectTrigger id="embedding-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {embeddingProviders.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {embeddingProviders.find(p => p.id === embeddingProvider)?.description}
+                  {' '}Changing provider re-indexes all notes in the background.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="llm-provider">Chat Model Provider</Label>
+                <Select
+                  value={llmProvider}
+                  onValueChange={(value) => {
+                    setLlmProvider(value as LlmProviderId);
+                    setLlmModel('');
+                    setLlmEndpoint('');
+                  }}
+                >
+                  <SelectTrigger id="llm-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {llmProviders.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {getLlmProviderOption(llmProvider).description}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="llm-model">Model</Label>
                   <Input
-                    id="gemini-api-key"
-                    type={showApiKey ? 'text' : 'password'}
-                    placeholder="Enter your Gemini API key"
-                    value={geminiApiKey}
-                    onChange={(e) => setGeminiApiKey(e.target.value)}
-                    className="pr-10"
+                    id="llm-model"
+                    placeholder={getLlmProviderOption(llmProvider).defaultModel}
+                    value={llmModel}
+                    onChange={(e) => setLlmModel(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="llm-endpoint">Endpoint</Label>
+                  <Input
+                    id="llm-endpoint"
+                    placeholder={getLlmProviderOption(llmProvider).defaultEndpoint}
+                    value={llmEndpoint}
+                    onChange={(e) => setLlmEndpoint(e.target.value)}
                   />
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="sm"
-                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                    onClick={() => setShowApiKey(!showApiKey)}
-                  >
-                    {showApiKey ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
-                  </Button>
                 </div>
-                <p className="text-xs text-muted-foreground">
-                  Your API key is encrypted and stored securely. It's only used for AI features.
-                </p>
               </div>
 
+              {getLlmProviderOption(llmProvider).acceptsApiKey && (
+                <ProviderKeyField
+                  id="llm-api-key"
+                  label="Chat Model API Key"
+                  placeholder="Optional for local servers"
+                  status={keys.llm}
+                  onSave={(apiKey) => saveKey('llm', apiKey)}
+                  onDelete={() => deleteKey('llm')}
+                />
+              )}
+
               <Button type="submit" className="w-full" disabled={loading}>
                 {loading ? 'Saving...' : 'Save Settings'}
               </Button>
@@ -177,6 +308,9 @@ export default function Settings() {
             </div>
           </CardContent>
         </Card>
+
+        <ReindexPanel />
+        <UsagePanel />
       </div>
     </div>
   );
@@ -0,0 +1,118 @@
+// Offline stand-in for a chat model server, for testing the chat pipeline
+// without API keys or a GPU. Speaks both APIs the edge functions support:
+//
+//   OpenAI-compatible  POST /v1/chat/completions  (JSON or SSE with stream: true)
+//   Ollama             POST /api/chat             (JSON or NDJSON with stream: true)
+//
+// When the request offers a create_task tool, the non-streaming reply also
+// carries one create_task call so chat actions can be tested end to end.
+//
+// Run:   deno run --allow-net --allow-env supabase/dev/llm-stub.ts
+// Then pick "OpenAI-compatible" in Settings with endpoint
+// http://host.docker.internal:8787/v1, or "Ollama" with http://host.docker.internal:8787
+// (edge functions run in Docker under `supabase functions serve`).
+
+const PORT = Number(Deno.env.get('LLM_STUB_PORT') ?? 8787);
+const TOKEN_DELAY_MS = Number(Deno.env.get('LLM_STUB_DELAY_MS') ?? 30);
+
+interface StubMessage {
+  role: string;
+  content: string;
+}
+
+// Deterministic reply so tests can assert on it
+function replyFor(messages: StubMessage[]): string {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  const question = lastUser?.content.split('\n').filter(Boolean).pop() ?? '';
+  return `Stub reply (${messages.length} messages). Last line: ${question.slice(0, 200)}`;
+}
+
+interface StubTool {
+  function?: { name?: string };
+}
+
+function toolCallsFor(tools: StubTool[], messages: StubMessage[]) {
+  if (!tools.some(tool => tool.function?.name === 'create_task')) return undefined;
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  const question = lastUser?.content.split('\n').filter(Boolean).pop() ?? 'Follow up';
+  return [{
+    id: 'call_stub_1',
+    type: 'function',
+    function: { name: 'create_task', arguments: JSON.stringify({ title: question.slice(0, 80), priority: 'medium' }) },
+  }];
+}
+
+function tokens(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const encoder = new TextEncoder();
+
+function streamLines(lines: AsyncGenerator<string>, contentType: string): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for await (const line of lines) {
+        controller.enqueue(encoder.encode(line));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': contentType } });
+}
+
+async function* openAiChunks(model: string, reply: string): AsyncGenerator<string> {
+  for (const token of tokens(reply)) {
+    await sleep(TOKEN_DELAY_MS);
+    yield `data: ${JSON.stringify({ model, choices: [{ index: 0, delta: { content: token } }] })}\n\n`;
+  }
+  yield `data: ${JSON.stringify({ model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`;
+  yield 'data: [DONE]\n\n';
+}
+
+async function* ollamaChunks(model: string, reply: string): AsyncGenerator<string> {
+  for (const token of tokens(reply)) {
+    await sleep(TOKEN_DELAY_MS);
+    yield `${JSON.stringify({ model, message: { role: 'assistant', content: token }, done: false })}\n`;
+  }
+  yield `${JSON.stringify({ model, message: { role: 'assistant', content: '' }, done: true })}\n`;
+}
+
+Deno.serve({ port: PORT }, async (req) => {
+  const { pathname } = new URL(req.url);
+  if (req.method !== 'POST') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const { model = 'stub', messages = [], stream = false, tools = [] } = await req.json();
+  const reply = replyFor(messages);
+  const toolCalls = toolCallsFor(tools, messages);
+  console.log(`${pathname} model=${model} messages=${messages.length} stream=${stream} tools=${tools.length}`);
+
+  if (pathname === '/v1/chat/completions') {
+    if (stream) return streamLines(openAiChunks(model, reply), 'text/event-stream');
+    return Response.json({
+      model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: reply, tool_calls: toolCalls },
+        finish_reason: toolCalls ? 'tool_calls' : 'stop',
+      }],
+    });
+  }
+
+  if (pathname === '/api/chat') {
+    if (stream) return streamLines(ollamaChunks(model, reply), 'application/x-ndjson');
+    // Ollama passes tool arguments as an object rather than a JSON string
+    const ollamaToolCalls = toolCalls?.map(call => ({
+      function: { name: call.function.name, arguments: JSON.parse(call.function.arguments) },
+    }));
+    return Response.json({
+      model,
+      message: { role: 'assistant', content: reply, tool_calls: ollamaToolCalls },
+      done: true,
+    });
+  }
+
+  return new Response('Not found', { status: 404 });
+});
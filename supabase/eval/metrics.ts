@@ -0,0 +1,60 @@
+// Ranking metrics for the retrieval evaluation. Rankings are lists of note
+// keys, best first; a question may have several relevant notes.
+
+// Search returns chunks, so a note can appear more than once; keep its best rank
+export function dedupeRanking(keys: string[]): string[] {
+  return [...new Set(keys)];
+}
+
+// Share of the relevant notes found in the top k results
+export function recallAtK(ranking: string[], relevant: string[], k: number): number {
+  if (relevant.length === 0) return 0;
+  const top = new Set(ranking.slice(0, k));
+  return relevant.filter(key => top.has(key)).length / relevant.length;
+}
+
+// 1 / position of the first relevant note, or 0 if none was returned
+export function reciprocalRank(ranking: string[], relevant: string[]): number {
+  const index = ranking.findIndex(key => relevant.includes(key));
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+// Normalised discounted cumulative gain over the top k with binary relevance:
+// relevant notes count for more the higher they rank, 1 being the ideal order
+export function ndcgAtK(ranking: string[], relevant: string[], k: number): number {
+  if (relevant.length === 0) return 0;
+  const gain = (index: number) => 1 / Math.log2(index + 2);
+
+  const dcg = ranking
+    .slice(0, k)
+    .reduce((sum, key, index) => (relevant.includes(key) ? sum + gain(index) : sum), 0);
+  let idealDcg = 0;
+  for (let index = 0; index < Math.min(relevant.length, k); index++) {
+    idealDcg += gain(index);
+  }
+  return dcg / idealDcg;
+}
+
+export interface MetricSummary {
+  recall: Record<number, number>;
+  ndcg: Record<number, number>;
+  mrr: number;
+}
+
+export function summarize(
+  results: Array<{ ranking: string[]; relevant: string[] }>,
+  ks: number[]
+): MetricSummary {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    recall: Object.fromEntries(
+      ks.map(k => [k, mean(results.map(result => recallAtK(result.ranking, result.relevant, k)))])
+    ),
+    ndcg: Object.fromEntries(
+      ks.map(k => [k, mean(results.map(result => ndcgAtK(result.ranking, result.relevant, k)))])
+    ),
+    mrr: mean(results.map(result => reciprocalRank(result.ranking, result.relevant))),
+  };
+}
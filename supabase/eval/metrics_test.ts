@@ -0,0 +1,56 @@
+import { assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { dedupeRanking, ndcgAtK, recallAtK, reciprocalRank, summarize } from './metrics.ts';
+
+Deno.test('dedupeRanking keeps each note at its best rank', () => {
+  assertEquals(dedupeRanking(['a', 'b', 'a', 'c', 'b']), ['a', 'b', 'c']);
+});
+
+Deno.test('recallAtK counts the relevant notes in the top k', () => {
+  const ranking = ['a', 'b', 'c', 'd'];
+
+  assertEquals(recallAtK(ranking, ['b', 'd'], 1), 0);
+  assertEquals(recallAtK(ranking, ['b', 'd'], 2), 0.5);
+  assertEquals(recallAtK(ranking, ['b', 'd'], 4), 1);
+  assertEquals(recallAtK(ranking, ['b', 'x'], 10), 0.5);
+  assertEquals(recallAtK(ranking, [], 4), 0);
+});
+
+Deno.test('reciprocalRank uses the first relevant note', () => {
+  assertEquals(reciprocalRank(['a', 'b', 'c'], ['a']), 1);
+  assertEquals(reciprocalRank(['a', 'b', 'c'], ['c', 'b']), 0.5);
+  assertEquals(reciprocalRank(['a', 'b', 'c'], ['c']), 1 / 3);
+  assertEquals(reciprocalRank(['a', 'b', 'c'], ['x']), 0);
+});
+
+Deno.test('ndcgAtK discounts relevant notes by rank', () => {
+  // Ideal order
+  assertEquals(ndcgAtK(['a', 'b', 'c'], ['a', 'b'], 3), 1);
+  // DCG = 1 / log2(3) = 0.6309, IDCG = 1
+  assertAlmostEquals(ndcgAtK(['x', 'a'], ['a'], 2), 0.6309, 1e-4);
+  // DCG = 1 + 1 / log2(4) = 1.5, IDCG = 1 + 1 / log2(3) = 1.6309
+  assertAlmostEquals(ndcgAtK(['a', 'x', 'c'], ['a', 'c'], 3), 0.9197, 1e-4);
+  // Only one of three relevant notes fits in k = 2: DCG = 0.6309, IDCG = 1.6309
+  assertAlmostEquals(ndcgAtK(['x', 'a', 'b'], ['a', 'b', 'c'], 2), 0.3869, 1e-4);
+  assertEquals(ndcgAtK(['a', 'b'], ['c'], 2), 0);
+  assertEquals(ndcgAtK(['a', 'b'], [], 2), 0);
+});
+
+Deno.test('summarize averages each metric over the questions', () => {
+  const summary = summarize(
+    [
+      { ranking: ['a', 'b'], relevant: ['a'] },
+      { ranking: ['x', 'b'], relevant: ['b'] },
+    ],
+    [1, 2]
+  );
+
+  assertEquals(summary.recall, { 1: 0.5, 2: 1 });
+  assertEquals(summary.mrr, 0.75);
+  assertEquals(summary.ndcg[1], 0.5);
+  // (1 + 1 / log2(3)) / 2
+  assertAlmostEquals(summary.ndcg[2], 0.8155, 1e-4);
+});
+
+Deno.test('summarize returns zeros without questions', () => {
+  assertEquals(summarize([], [5]), { recall: { 5: 0 }, ndcg: { 5: 0 }, mrr: 0 });
+});
@@ -0,0 +1,90 @@
+import type { LlmTool, LlmToolCall } from './llm.ts';
+
+// Actions the chat model may propose. Nothing is executed server-side: the
+// client shows each proposal as a card and applies it only once confirmed.
+
+export type ChatAction =
+  | {
+    type: 'create_task';
+    title: string;
+    priority: 'low' | 'medium' | 'high';
+    linkedNoteId: string | null;
+    linkedNoteTitle: string | null;
+  }
+  | {
+    type: 'append_to_note';
+    noteId: string;
+    noteTitle: string;
+    content: string;
+  };
+
+export const CHAT_ACTION_TOOLS: LlmTool[] = [
+  {
+    name: 'create_task',
+    description: 'Propose a new task for the user, optionally linked to one of the notes in the context.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short, actionable task title' },
+        priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+        linked_note_id: { type: 'string', description: 'id of a note from the context the task relates to' }
+      },
+      required: ['title', 'priority']
+    }
+  },
+  {
+    name: 'append_to_note',
+    description: 'Propose appending markdown text (for example a summary) to the end of a note from the context.',
+    parameters: {
+      type: 'object',
+      properties: {
+        note_id: { type: 'string', description: 'id of a note from the context' },
+        content: { type: 'string', description: 'Markdown to append' }
+      },
+      required: ['note_id', 'content']
+    }
+  }
+];
+
+const PRIORITIES = ['low', 'medium', 'high'] as const;
+const MAX_TASK_TITLE = 200;
+const MAX_APPEND_CHARS = 4000;
+
+// Keep only well-formed proposals that reference notes the model was shown
+export function parseProposedActions(
+  toolCalls: LlmToolCall[],
+  knownNotes: Map<string, string>
+): ChatAction[] {
+  const actions: ChatAction[] = [];
+
+  for (const call of toolCalls) {
+    const args = call.arguments;
+
+    if (call.name === 'create_task') {
+      const title = typeof args.title === 'string' ? args.title.trim().slice(0, MAX_TASK_TITLE) : '';
+      if (!title) continue;
+
+      const priority = PRIORITIES.find(p => p === args.priority) ?? 'medium';
+      const noteId = typeof args.linked_note_id === 'string' && knownNotes.has(args.linked_note_id)
+        ? args.linked_note_id
+        : null;
+      actions.push({
+        type: 'create_task',
+        title,
+        priority,
+        linkedNoteId: noteId,
+        linkedNoteTitle: noteId ? knownNotes.get(noteId)! : null
+      });
+    } else if (call.name === 'append_to_note') {
+      const noteId = typeof args.note_id === 'string' ? args.note_id : '';
+      const content = typeof args.content === 'string' ? args.content.trim().slice(0, MAX_APPEND_CHARS) : '';
+      if (!knownNotes.has(noteId) || !content) continue;
+
+      actions.push({ type: 'append_to_note', noteId, noteTitle: knownNotes.get(noteId)!, content });
+    } else {
+      console.warn(`Ignoring unknown tool call: ${call.name}`);
+    }
+  }
+
+  return actions;
+}
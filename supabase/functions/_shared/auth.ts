@@ -0,0 +1,52 @@
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { HttpError } from './http.ts';
+
+// Functions talk to the database with the service role and scope every query
+// to the caller themselves, so the caller's JWT is verified up front.
+
+export interface AuthContext {
+  supabase: SupabaseClient;
+  user: User;
+  userId: string;
+}
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+}
+
+function bearerToken(req: Request): string | null {
+  const match = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+export async function authenticateUser(req: Request, supabase: SupabaseClient): Promise<User> {
+  const jwt = bearerToken(req);
+  if (!jwt) {
+    throw new HttpError(401, 'unauthorized', 'Authorization header required');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(jwt);
+  if (error || !user) {
+    throw new HttpError(401, 'unauthorized', 'Invalid authentication token');
+  }
+  return user;
+}
+
+// Middleware for user-facing functions: the handler only runs for a signed-in user
+export function withUser(
+  handler: (req: Request, context: AuthContext) => Promise<Response>,
+  createSupabase: () => SupabaseClient = createServiceClient
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    const supabase = createSupabase();
+    const user = await authenticateUser(req, supabase);
+    return handler(req, { supabase, user, userId: user.id });
+  };
+}
+
+// For functions only the scheduler may call
+export function requireServiceRole(req: Request, serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')): void {
+  if (!serviceKey || bearerToken(req) !== serviceKey) {
+    throw new HttpError(403, 'forbidden', 'Forbidden');
+  }
+}
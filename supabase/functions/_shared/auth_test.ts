@@ -0,0 +1,59 @@
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { authenticateUser, requireServiceRole, withUser } from './auth.ts';
+import { HttpError } from './http.ts';
+
+// Just enough of a client for auth.getUser; accepts one token
+function fakeSupabase(validToken: string): SupabaseClient {
+  return {
+    auth: {
+      getUser: (jwt: string) => Promise.resolve(
+        jwt === validToken
+          ? { data: { user: { id: 'user-1' } }, error: null }
+          : { data: { user: null }, error: new Error('invalid JWT') }
+      ),
+    },
+  } as unknown as SupabaseClient;
+}
+
+function requestWith(authorization?: string): Request {
+  return new Request('http://localhost/', {
+    method: 'POST',
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+Deno.test('authenticateUser resolves the user for a valid bearer token', async () => {
+  const user = await authenticateUser(requestWith('Bearer good'), fakeSupabase('good'));
+  assertEquals(user.id, 'user-1');
+});
+
+Deno.test('authenticateUser rejects missing and invalid tokens with a 401', async () => {
+  const missing = await assertRejects(() => authenticateUser(requestWith(), fakeSupabase('good')), HttpError);
+  assertEquals(missing.status, 401);
+  assertEquals(missing.message, 'Authorization header required');
+
+  const invalid = await assertRejects(() => authenticateUser(requestWith('Bearer bad'), fakeSupabase('good')), HttpError);
+  assertEquals(invalid.status, 401);
+  assertEquals(invalid.message, 'Invalid authentication token');
+});
+
+Deno.test('withUser passes the authenticated user to the handler', async () => {
+  const handler = withUser(
+    (_req, { userId }) => Promise.resolve(new Response(userId)),
+    () => fakeSupabase('good')
+  );
+
+  const response = await handler(requestWith('Bearer good'));
+  assertEquals(await response.text(), 'user-1');
+
+  await assertRejects(() => handler(requestWith('Bearer bad')), HttpError);
+});
+
+Deno.test('requireServiceRole only accepts the service key', () => {
+  requireServiceRole(requestWith('Bearer service-key'), 'service-key');
+
+  const error = assertThrows(() => requireServiceRole(requestWith('Bearer anon-key'), 'service-key'), HttpError);
+  assertEquals(error.status, 403);
+  assertThrows(() => requireServiceRole(requestWith('Bearer '), ''), HttpError);
+});
@@ -0,0 +1,254 @@
+// Markdown-aware chunking for the embedding pipeline. Notes are split along
+// the structure the editor produces - headings, paragraphs and ``` fenced
+// blocks - so a chunk never cuts a code block or a section in half.
+
+export const MAX_CHUNK_CHARS = 800;
+const MIN_CHUNK_CHARS = 20;
+
+// `start`/`end` are character offsets into the note content, so citations
+// can point back at the exact passage a chunk came from
+export interface NoteChunk {
+  text: string;
+  headingPath: string[];
+  codeLanguage: string | null;
+  start: number;
+  end: number;
+}
+
+interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+type MarkdownBlock = TextSpan & (
+  | { type: 'heading'; level: number }
+  | { type: 'paragraph' }
+  | { type: 'code'; language: string | null }
+);
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+export function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  const lines = content.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const lineEnd = (index: number) => lineStarts[index] + lines[index].length;
+
+  const blocks: MarkdownBlock[] = [];
+  let paragraphFirst = -1;
+  let paragraphLast = -1;
+
+  const flushParagraph = () => {
+    if (paragraphFirst >= 0) {
+      const first = lines[paragraphFirst];
+      const start = lineStarts[paragraphFirst] + first.length - first.trimStart().length;
+      const end = lineStarts[paragraphLast] + lines[paragraphLast].trimEnd().length;
+      if (end > start) {
+        blocks.push({ type: 'paragraph', text: content.slice(start, end), start, end });
+      }
+    }
+    paragraphFirst = -1;
+    paragraphLast = -1;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const first = i;
+      // An unterminated fence runs to the end of the note, as in the editor preview
+      while (++i < lines.length) {
+        if (lines[i].trim().startsWith(marker)) break;
+      }
+      const last = Math.min(i, lines.length - 1);
+      const start = lineStarts[first];
+      const end = lineEnd(last);
+      blocks.push({
+        type: 'code',
+        language: fence[2] ? fence[2].toLowerCase() : null,
+        text: content.slice(start, end),
+        start,
+        end
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2], start: lineStarts[i], end: lineEnd(i) });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      if (paragraphFirst < 0) paragraphFirst = i;
+      paragraphLast = i;
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Break a block that is too long for one chunk, preferring sentence
+// boundaries. Pieces are verbatim slices of the block.
+function splitLongText(block: TextSpan, maxChars: number): TextSpan[] {
+  const { text } = block;
+  const sentences: Array<{ start: number; end: number }> = [];
+  const boundary = /(?<=[.!?])\s+/g;
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    sentences.push({ start: cursor, end: match.index });
+    cursor = match.index + match[0].length;
+  }
+  sentences.push({ start: cursor, end: text.length });
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (const sentence of sentences) {
+    if (sentence.end - sentence.start > maxChars) {
+      if (current) ranges.push(current);
+      current = null;
+      for (let i = sentence.start; i < sentence.end; i += maxChars) {
+        ranges.push({ start: i, end: Math.min(i + maxChars, sentence.end) });
+      }
+    } else if (current && sentence.end - current.start > maxChars) {
+      ranges.push(current);
+      current = { ...sentence };
+    } else {
+      current = current ? { start: current.start, end: sentence.end } : { ...sentence };
+    }
+  }
+
+  if (current) ranges.push(current);
+  return ranges.map(range => ({
+    text: text.slice(range.start, range.end),
+    start: block.start + range.start,
+    end: block.start + range.end
+  }));
+}
+
+// Split an oversized fenced block on line boundaries, re-fencing each piece.
+// Offsets cover the body lines each piece was cut from.
+function splitCodeBlock(block: TextSpan, maxChars: number): TextSpan[] {
+  const lines = block.text.split('\n');
+  const opening = lines[0];
+  const hasClosing = lines.length > 1 && FENCE_REGEX.test(lines[lines.length - 1]);
+  const body = lines.slice(1, hasClosing ? -1 : undefined);
+  const closing = hasClosing ? lines[lines.length - 1] : '```';
+  const budget = Math.max(maxChars - opening.length - closing.length - 2, 1);
+
+  const pieces: TextSpan[] = [];
+  let current: string[] = [];
+  let length = 0;
+  let offset = block.start + opening.length + 1;
+  let pieceStart = offset;
+
+  const flush = () => {
+    pieces.push({
+      text: [opening, ...current, closing].join('\n'),
+      start: pieceStart,
+      end: pieceStart + current.join('\n').length
+    });
+  };
+
+  for (const line of body) {
+    if (current.length > 0 && length + line.length + 1 > budget) {
+      flush();
+      current = [];
+      length = 0;
+      pieceStart = offset;
+    }
+    current.push(line);
+    length += line.length + 1;
+    offset += line.length + 1;
+  }
+
+  if (current.length > 0) flush();
+  return pieces;
+}
+
+export function chunkMarkdown(content: string, maxChars = MAX_CHUNK_CHARS): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  const headingStack: Array<{ level: number; text: string }> = [];
+  let parts: TextSpan[] = [];
+  let length = 0;
+
+  const headingPath = () => headingStack.map(heading => heading.text);
+
+  const flush = () => {
+    const text = parts.map(part => part.text).join('\n\n').trim();
+    if (text.length >= MIN_CHUNK_CHARS) {
+      chunks.push({
+        text,
+        headingPath: headingPath(),
+        codeLanguage: null,
+        start: parts[0].start,
+        end: parts[parts.length - 1].end
+      });
+    }
+    parts = [];
+    length = 0;
+  };
+
+  for (const block of parseMarkdownBlocks(content)) {
+    if (block.type === 'heading') {
+      // A new section never shares a chunk with the previous one
+      flush();
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= block.level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level: block.level, text: block.text });
+      continue;
+    }
+
+    if (block.type === 'code') {
+      flush();
+      const pieces = block.text.length > maxChars
+        ? splitCodeBlock(block, maxChars)
+        : [block];
+      for (const piece of pieces) {
+        chunks.push({
+          text: piece.text,
+          headingPath: headingPath(),
+          codeLanguage: block.language,
+          start: piece.start,
+          end: piece.end
+        });
+      }
+      continue;
+    }
+
+    for (const piece of block.text.length > maxChars ? splitLongText(block, maxChars) : [block]) {
+      if (parts.length > 0 && length + piece.text.length + 2 > maxChars) {
+        flush();
+      }
+      parts.push(piece);
+      length += piece.text.length + 2;
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+// Text actually sent to the embedding model: the note title and section give
+// short chunks enough context to be found
+export function embeddingInput(noteTitle: string, chunk: NoteChunk): string {
+  const context = [noteTitle, ...chunk.headingPath].filter(Boolean).join(' > ');
+  const language = chunk.codeLanguage ? ` (${chunk.codeLanguage} code)` : '';
+  return `${context}${language}\n\n${chunk.text}`;
+}
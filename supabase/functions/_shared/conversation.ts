@@ -0,0 +1,89 @@
+// Conversation memory for the notes chat: validating the history the client
+// sends, trimming it to a token budget and turning follow-up questions into
+// standalone retrieval queries.
+
+import { ValidationError } from './validation.ts';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export const HISTORY_TOKEN_BUDGET = 2000;
+const MAX_HISTORY_TURNS = 50;
+
+// Rough count for budgeting: ~4 characters per token for English text
+export const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function parseHistory(value: unknown): ChatTurn[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new ValidationError('history', 'must be an array of { role, content } turns');
+  }
+
+  return value.slice(-MAX_HISTORY_TURNS).map((turn, index) => {
+    if (
+      !turn || typeof turn !== 'object' ||
+      (turn.role !== 'user' && turn.role !== 'model') ||
+      typeof turn.content !== 'string'
+    ) {
+      throw new ValidationError(`history[${index}]`, 'must have role "user" or "model" and string content');
+    }
+    return { role: turn.role, content: turn.content };
+  });
+}
+
+// Keep the most recent turns that fit in `budget` tokens. Older turns are
+// dropped whole, and the result always starts with a user turn as Gemini expects.
+export function trimHistory(history: ChatTurn[], budget = HISTORY_TOKEN_BUDGET): ChatTurn[] {
+  const kept: ChatTurn[] = [];
+  let used = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (used + cost > budget) break;
+    kept.unshift(history[i]);
+    used += cost;
+  }
+
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+  return kept;
+}
+
+export function formatTranscript(history: ChatTurn[]): string {
+  return history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+}
+
+// Follow-ups like "and how do I undo that?" embed poorly on their own, so ask
+// the model for a standalone query. Falls back to the raw message on failure.
+export async function rewriteRetrievalQuery(
+  history: ChatTurn[],
+  message: string,
+  generate: (prompt: string) => Promise<string>
+): Promise<string> {
+  if (history.length === 0) return message;
+
+  const prompt = `Rewrite the user's latest message as a standalone search query for their notes.
+Resolve pronouns and references using the conversation. Reply with the query only.
+
+Conversation:
+${formatTranscript(history)}
+
+Latest message: ${message}`;
+
+  try {
+    const rewritten = (await generate(prompt)).trim().replace(/^["']|["']$/g, '');
+    return rewritten || message;
+  } catch (error) {
+    console.error('Query rewrite failed, using original message:', error);
+    return message;
+  }
+}
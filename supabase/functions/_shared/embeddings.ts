@@ -0,0 +1,209 @@
+import { env, pipeline } from 'https://cdn.jsdelivr.net/npm/@xenova/transformers@2.17.2';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { loadProviderKeys } from './providerKeys.ts';
+
+// Model weights are pulled from the HuggingFace hub on first use and kept in
+// memory for the lifetime of the edge worker - no browser cache, no local files
+env.useBrowserCache = false;
+env.allowLocalModels = false;
+
+export type EmbeddingProviderId = 'local-hash' | 'local-onnx' | 'gemini' | 'huggingface';
+
+export interface EmbeddingContext {
+  geminiApiKey?: string | null;
+}
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;
+  dimensions: number;
+  embed: (text: string, context: EmbeddingContext) => Promise<number[]>;
+}
+
+export const DEFAULT_EMBEDDING_PROVIDER: EmbeddingProviderId = 'local-onnx';
+
+type FeatureExtractor = (
+  text: string,
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ data: Float32Array }>;
+
+let extractorPromise: Promise<FeatureExtractor> | null = null;
+
+function getExtractor(model: string): Promise<FeatureExtractor> {
+  if (!extractorPromise) {
+    extractorPromise = (pipeline('feature-extraction', model) as Promise<FeatureExtractor>)
+      .catch((error) => {
+        // Allow the next request to retry loading the model
+        extractorPromise = null;
+        throw error;
+      });
+  }
+  return extractorPromise;
+}
+
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+function normalize(embedding: number[]): number[] {
+  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+  return magnitude > 0 ? embedding.map(val => val / magnitude) : embedding;
+}
+
+// Word and trigram hashing - dependency free, but only a rough lexical signal
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 0);
+  const embedding = new Array(dimensions).fill(0);
+
+  words.forEach((word, index) => {
+    const wordHash = hashString(word);
+    for (let i = 0; i < Math.min(word.length, 10); i++) {
+      const charCode = word.charCodeAt(i);
+      const pos = (wordHash + i * 17) % dimensions;
+      embedding[pos] += Math.sin(charCode * 0.1) * (1 / Math.sqrt(index + 1));
+    }
+  });
+
+  for (let i = 0; i < text.length - 2; i++) {
+    const trigramHash = hashString(text.slice(i, i + 3).toLowerCase());
+    embedding[trigramHash % dimensions] += 0.2;
+    embedding[(trigramHash * 7) % dimensions] += 0.1;
+  }
+
+  return normalize(embedding);
+}
+
+const localHashProvider: EmbeddingProvider = {
+  id: 'local-hash',
+  model: 'local-hash-v1',
+  dimensions: 384,
+  embed: async (text) => hashEmbedding(text, 384),
+};
+
+const localOnnxProvider: EmbeddingProvider = {
+  id: 'local-onnx',
+  model: 'Xenova/all-MiniLM-L6-v2',
+  dimensions: 384,
+  // On-device sentence embedding (mean pooled, L2 normalised) - no API calls
+  embed: async (text) => {
+    const extractor = await getExtractor(localOnnxProvider.model);
+    const output = await extractor(text, { pooling: 'mean', normalize: true });
+    return Array.from(output.data);
+  },
+};
+
+const geminiProvider: EmbeddingProvider = {
+  id: 'gemini',
+  model: 'text-embedding-004',
+  dimensions: 768,
+  embed: async (text, { geminiApiKey }) => {
+    if (!geminiApiKey) {
+      throw new Error('Gemini API key not found. Please add your API key in settings.');
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${geminiProvider.model}:embedContent`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': geminiApiKey },
+        body: JSON.stringify({
+          model: `models/${geminiProvider.model}`,
+          content: { parts: [{ text }] }
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Gemini embedding error:', errorText);
+      throw new Error(`Gemini embedding error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.embedding.values;
+  },
+};
+
+const huggingFaceProvider: EmbeddingProvider = {
+  id: 'huggingface',
+  model: 'sentence-transformers/all-MiniLM-L6-v2',
+  dimensions: 384,
+  embed: async (text) => {
+    const response = await fetch(
+      `https://api-inference.huggingface.co/pipeline/feature-extraction/${huggingFaceProvider.model}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          inputs: text,
+          options: { wait_for_model: true }
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('HuggingFace embedding error:', errorText);
+      throw new Error(`Failed to generate embedding: ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (Array.isArray(data)) return data;
+    if (data.embeddings) return data.embeddings;
+    throw new Error('Unexpected embedding format from HuggingFace');
+  },
+};
+
+export const embeddingProviders: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  'local-hash': localHashProvider,
+  'local-onnx': localOnnxProvider,
+  'gemini': geminiProvider,
+  'huggingface': huggingFaceProvider,
+};
+
+export function getEmbeddingProvider(id?: string | null): EmbeddingProvider {
+  return embeddingProviders[id as EmbeddingProviderId] ?? embeddingProviders[DEFAULT_EMBEDDING_PROVIDER];
+}
+
+// Embed with a provider and check the vector matches its declared dimensions
+export async function embedText(
+  provider: EmbeddingProvider,
+  text: string,
+  context: EmbeddingContext
+): Promise<number[]> {
+  const embedding = await provider.embed(text, context);
+
+  if (embedding.length !== provider.dimensions) {
+    throw new Error(
+      `Unexpected embedding size ${embedding.length} from ${provider.model}, expected ${provider.dimensions}`
+    );
+  }
+
+  return embedding;
+}
+
+// Look up the user's active provider along with any credentials it needs
+export async function resolveEmbeddingProvider(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ provider: EmbeddingProvider; context: EmbeddingContext }> {
+  const { data: settingsData } = await supabase
+    .from('user_settings')
+    .select('embedding_provider')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const provider = getEmbeddingProvider(settingsData?.embedding_provider);
+  const keys = provider.id === 'gemini' ? await loadProviderKeys(supabase, userId) : {};
+
+  return {
+    provider,
+    context: { geminiApiKey: keys.gemini },
+  };
+}
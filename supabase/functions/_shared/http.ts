@@ -0,0 +1,103 @@
+// Request/response plumbing shared by every edge function: CORS, JSON
+// responses and one error format.
+//
+// Errors always have the shape { error, code, details? }. `error` stays a
+// human-readable string so existing clients can keep showing it as-is.
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export type ErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'upstream_error'
+  | 'internal_error';
+
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+}
+
+// Throw from a handler to answer with a specific status instead of a 500
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details?: unknown,
+    // Extra response headers, e.g. Retry-After on a 429
+    readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse<T>(body: T, init: { status?: number; headers?: Record<string, string> } = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: init.status ?? 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...init.headers },
+  });
+}
+
+// Supabase client errors are plain objects with a message, not Error instances
+function messageOf(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof HttpError) {
+    const body: ErrorBody = {
+      error: error.message,
+      code: error.code,
+      ...(error.details !== undefined && { details: error.details }),
+    };
+    return jsonResponse(body, { status: error.status, headers: error.headers });
+  }
+
+  const body: ErrorBody = {
+    error: messageOf(error),
+    code: 'internal_error',
+  };
+  return jsonResponse(body, { status: 500 });
+}
+
+export const sseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+};
+
+// Wrap a function's handler: answers CORS preflight, and turns anything the
+// handler throws into an error response logged under the function's name
+export function handleRequest(
+  functionName: string,
+  handler: (req: Request) => Promise<Response>
+): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      return await handler(req);
+    } catch (error) {
+      if (error instanceof HttpError && error.status < 500) {
+        console.warn(`${functionName}: ${error.status} ${error.message}`);
+      } else {
+        console.error(`Error in ${functionName} function:`, error);
+      }
+      return errorResponse(error);
+    }
+  };
+}
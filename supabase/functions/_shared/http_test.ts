@@ -0,0 +1,51 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { corsHeaders, errorResponse, handleRequest, HttpError, jsonResponse } from './http.ts';
+
+Deno.test('jsonResponse sets CORS and JSON headers', async () => {
+  const response = jsonResponse({ ok: true }, { status: 202 });
+
+  assertEquals(response.status, 202);
+  assertEquals(response.headers.get('Content-Type'), 'application/json');
+  assertEquals(response.headers.get('Access-Control-Allow-Origin'), corsHeaders['Access-Control-Allow-Origin']);
+  assertEquals(await response.json(), { ok: true });
+});
+
+Deno.test('errorResponse keeps the status, code and details of an HttpError', async () => {
+  const response = errorResponse(new HttpError(404, 'not_found', 'Note not found', { noteId: 'n1' }));
+
+  assertEquals(response.status, 404);
+  assertEquals(await response.json(), { error: 'Note not found', code: 'not_found', details: { noteId: 'n1' } });
+});
+
+Deno.test('errorResponse turns other errors into a 500', async () => {
+  const fromError = errorResponse(new Error('boom'));
+  assertEquals(fromError.status, 500);
+  assertEquals(await fromError.json(), { error: 'boom', code: 'internal_error' });
+
+  // Supabase client errors are plain objects
+  const fromObject = errorResponse({ message: 'relation does not exist', code: '42P01' });
+  assertEquals(await fromObject.json(), { error: 'relation does not exist', code: 'internal_error' });
+});
+
+Deno.test('handleRequest answers CORS preflight without calling the handler', async () => {
+  let called = false;
+  const handler = handleRequest('test', () => {
+    called = true;
+    return Promise.resolve(new Response('ok'));
+  });
+
+  const response = await handler(new Request('http://localhost/', { method: 'OPTIONS' }));
+
+  assertEquals(called, false);
+  assertEquals(response.headers.get('Access-Control-Allow-Headers'), corsHeaders['Access-Control-Allow-Headers']);
+  await response.body?.cancel();
+});
+
+Deno.test('handleRequest converts thrown errors into error responses', async () => {
+  const handler = handleRequest('test', () => Promise.reject(new HttpError(400, 'bad_request', 'message is required')));
+
+  const response = await handler(new Request('http://localhost/', { method: 'POST' }));
+
+  assertEquals(response.status, 400);
+  assertEquals((await response.json()).code, 'bad_request');
+});
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { embedText, type EmbeddingContext, type EmbeddingProvider } from './embeddings.ts';
+import { chunkMarkdown, embeddingInput } from './chunking.ts';
+
+export interface IndexableNote {
+  id: string;
+  title: string;
+  content: string | null;
+}
+
+export interface IndexResult {
+  chunksProcessed: number;
+  totalChunks: number;
+  chunksEmbedded: number;
+  chunksReused: number;
+}
+
+export async function hashChunk(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Bring a note's stored chunks up to date with `provider`. Chunks whose text
+// hash already has a vector from the same model are kept; only new or changed
+// chunks are embedded, and chunks that no longer exist are removed.
+export async function indexNote(
+  supabase: SupabaseClient,
+  userId: string,
+  note: IndexableNote,
+  provider: EmbeddingProvider,
+  context: EmbeddingContext
+): Promise<IndexResult> {
+  const chunks = chunkMarkdown(note.content ?? '');
+  const inputs = chunks.map(chunk => embeddingInput(note.title, chunk));
+  // Hash what gets embedded, so a renamed title or heading also re-embeds
+  const hashes = await Promise.all(inputs.map(hashChunk));
+
+  const { data: existingRows, error: existingError } = await supabase
+    .from('notes_embeddings')
+    .select('id, content_hash, chunk_index, char_start, char_end, model')
+    .eq('note_id', note.id)
+    .eq('user_id', userId);
+
+  if (existingError) throw existingError;
+
+  // Rows from another model are never reused - only the active model is searched
+  const reusable = new Map<string, Array<{ id: string; chunk_index: number; char_start: number | null; char_end: number | null }>>();
+  for (const row of existingRows ?? []) {
+    if (row.model !== provider.model || !row.content_hash) continue;
+    const rows = reusable.get(row.content_hash) ?? [];
+    rows.push(row);
+    reusable.set(row.content_hash, rows);
+  }
+
+  const keptIds = new Set<string>();
+  const moved: Array<{ id: string; chunk_index: number; char_start: number; char_end: number }> = [];
+  const inserts = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const match = reusable.get(hashes[i])?.shift();
+    if (match) {
+      keptIds.add(match.id);
+      // Unchanged text can still move when earlier parts of the note are edited
+      if (match.chunk_index !== i || match.char_start !== chunks[i].start || match.char_end !== chunks[i].end) {
+        moved.push({ id: match.id, chunk_index: i, char_start: chunks[i].start, char_end: chunks[i].end });
+      }
+      continue;
+    }
+
+    try {
+      const embedding = await embedText(provider, inputs[i], context);
+      inserts.push({
+        note_id: note.id,
+        user_id: userId,
+        content_chunk: chunks[i].text,
+        content_hash: hashes[i],
+        heading_path: chunks[i].headingPath,
+        code_language: chunks[i].codeLanguage,
+        char_start: chunks[i].start,
+        char_end: chunks[i].end,
+        embedding: `[${embedding.join(',')}]`,
+        chunk_index: i,
+        provider: provider.id,
+        model: provider.model,
+        dimensions: provider.dimensions
+      });
+    } catch (error) {
+      console.error(`Error generating embedding for chunk ${i} of note ${note.id}:`, error);
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error: insertError } = await supabase
+      .from('notes_embeddings')
+      .insert(inserts);
+
+    if (insertError) {
+      console.error('Database insert error:', insertError);
+      throw insertError;
+    }
+  }
+
+  for (const row of moved) {
+    await supabase
+      .from('notes_embeddings')
+      .update({ chunk_index: row.chunk_index, char_start: row.char_start, char_end: row.char_end })
+      .eq('id', row.id);
+  }
+
+  const staleIds = (existingRows ?? []).map(row => row.id).filter(id => !keptIds.has(id));
+  if (staleIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('notes_embeddings')
+      .delete()
+      .in('id', staleIds);
+
+    if (deleteError) {
+      console.error('Error deleting stale embeddings:', deleteError);
+    }
+  }
+
+  console.log(
+    `Indexed note ${note.id} (${provider.model}): ${inserts.length} embedded, ` +
+    `${keptIds.size} unchanged, ${staleIds.length} removed`
+  );
+
+  return {
+    chunksProcessed: inserts.length + keptIds.size,
+    totalChunks: chunks.length,
+    chunksEmbedded: inserts.length,
+    chunksReused: keptIds.size,
+  };
+}
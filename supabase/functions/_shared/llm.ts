@@ -0,0 +1,331 @@
+import { readSseEvents } from './sse.ts';
+import { HttpError } from './http.ts';
+import type { ProviderKeys } from './providerKeys.ts';
+
+// Chat model providers. Each one turns a list of messages into text, either in
+// one piece or as a stream of text deltas, and can offer the model tools
+// (function calling) in the one-piece mode.
+
+export type LlmProviderId = 'gemini' | 'openai' | 'ollama';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmConfig {
+  model: string;
+  endpoint: string;
+  apiKey?: string | null;
+}
+
+// A function the model may call. `parameters` is a JSON Schema object.
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultModel: string;
+  defaultEndpoint: string;
+  requiresApiKey: boolean;
+  generate: (messages: LlmMessage[], config: LlmConfig, signal?: AbortSignal) => Promise<string>;
+  stream: (messages: LlmMessage[], config: LlmConfig, signal?: AbortSignal) => AsyncGenerator<string>;
+  generateWithTools: (
+    messages: LlmMessage[],
+    tools: LlmTool[],
+    config: LlmConfig,
+    signal?: AbortSignal
+  ) => Promise<LlmToolResult>;
+}
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = 'gemini';
+
+async function assertOk(response: Response, label: string): Promise<void> {
+  if (response.ok) return;
+  const errorText = await response.text();
+  console.error(`${label} API error:`, errorText);
+  throw new HttpError(502, 'upstream_error', `${label} API error: ${response.status} ${response.statusText}`);
+}
+
+function trimSlash(endpoint: string): string {
+  return endpoint.replace(/\/+$/, '');
+}
+
+// Gemini keeps the system prompt apart and calls the assistant role "model"
+function toGeminiRequest(messages: LlmMessage[]) {
+  const system = messages.filter(message => message.role === 'system').map(message => message.content);
+  return {
+    ...(system.length > 0 && { systemInstruction: { parts: [{ text: system.join('\n\n') }] } }),
+    contents: messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }))
+  };
+}
+
+// Gemini takes an OpenAPI-style schema with upper-case type names
+function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value)
+  ]));
+}
+
+function parseToolArguments(value: unknown): Record<string, unknown> {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return (value ?? {}) as Record<string, unknown>;
+}
+
+function geminiText(data: { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }): string {
+  return (data.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+}
+
+const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  defaultModel: 'gemini-1.5-flash',
+  defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta',
+  requiresApiKey: true,
+  generate: async (messages, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/models/${config.model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey ?? '' },
+      body: JSON.stringify(toGeminiRequest(messages)),
+      signal
+    });
+    await assertOk(response, 'Gemini');
+    return geminiText(await response.json());
+  },
+  stream: async function* (messages, config, signal) {
+    const response = await fetch(`${trimSlash(config.endpoint)}/models/${config.model}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey ?? '' },
+      body: JSON.stringify(toGeminiRequest(messages)),
+      signal
+    });
+    await assertOk(response, 'Gemini');
+
+    for await (const { data } of readSseEvents(response.body!)) {
+      const text = geminiText(JSON.parse(data));
+      if (text) yield text;
+    }
+  },
+  generateWithTools: async (messages, tools, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/models/${config.model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': config.apiKey ?? '' },
+      body: JSON.stringify({
+        ...toGeminiRequest(messages),
+        tools: [{
+          functionDeclarations: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters)
+          }))
+        }]
+      }),
+      signal
+    });
+    await assertOk(response, 'Gemini');
+
+    const data = await response.json();
+    const parts: Array<{ text?: string; functionCall?: { name: string; args?: unknown } }> =
+      data.candidates?.[0]?.content?.parts ?? [];
+    return {
+      text: parts.map(part => part.text ?? '').join(''),
+      toolCalls: parts
+        .filter(part => part.functionCall)
+        .map(part => ({ name: part.functionCall!.name, arguments: parseToolArguments(part.functionCall!.args) }))
+    };
+  },
+};
+
+// OpenAI and Ollama share the same tool declaration and tool_calls shape
+function toOpenAiTools(tools: LlmTool[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }));
+}
+
+function fromOpenAiMessage(message: {
+  content?: string | null;
+  tool_calls?: Array<{ function: { name: string; arguments: unknown } }>;
+} | undefined): LlmToolResult {
+  return {
+    text: message?.content ?? '',
+    toolCalls: (message?.tool_calls ?? []).map(call => ({
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments)
+    }))
+  };
+}
+
+function openAiHeaders(config: LlmConfig): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+  };
+}
+
+// Anything speaking the /chat/completions API: OpenAI, OpenRouter, vLLM, LM Studio,
+// or llama.cpp's server (endpoint http://localhost:8080/v1)
+const openAiProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultEndpoint: 'https://api.openai.com/v1',
+  requiresApiKey: false,
+  generate: async (messages, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/chat/completions`, {
+      method: 'POST',
+      headers: openAiHeaders(config),
+      body: JSON.stringify({ model: config.model, messages }),
+      signal
+    });
+    await assertOk(response, 'OpenAI-compatible');
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  },
+  stream: async function* (messages, config, signal) {
+    const response = await fetch(`${trimSlash(config.endpoint)}/chat/completions`, {
+      method: 'POST',
+      headers: openAiHeaders(config),
+      body: JSON.stringify({ model: config.model, messages, stream: true }),
+      signal
+    });
+    await assertOk(response, 'OpenAI-compatible');
+
+    for await (const { data } of readSseEvents(response.body!)) {
+      if (data === '[DONE]') return;
+      const text = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  },
+  generateWithTools: async (messages, tools, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/chat/completions`, {
+      method: 'POST',
+      headers: openAiHeaders(config),
+      body: JSON.stringify({ model: config.model, messages, tools: toOpenAiTools(tools) }),
+      signal
+    });
+    await assertOk(response, 'OpenAI-compatible');
+    const data = await response.json();
+    return fromOpenAiMessage(data.choices?.[0]?.message);
+  },
+};
+
+// Ollama's native API streams newline-delimited JSON rather than SSE
+const ollamaProvider: LlmProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llama3.2',
+  defaultEndpoint: 'http://localhost:11434',
+  requiresApiKey: false,
+  generate: async (messages, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, messages, stream: false }),
+      signal
+    });
+    await assertOk(response, 'Ollama');
+    const data = await response.json();
+    return data.message?.content ?? '';
+  },
+  stream: async function* (messages, config, signal) {
+    const response = await fetch(`${trimSlash(config.endpoint)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, messages, stream: true }),
+      signal
+    });
+    await assertOk(response, 'Ollama');
+
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(`Ollama error: ${chunk.error}`);
+        if (chunk.message?.content) yield chunk.message.content;
+        if (chunk.done) return;
+      }
+    }
+  },
+  generateWithTools: async (messages, tools, config, signal) => {
+    const response = await fetch(`${trimSlash(config.endpoint)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: config.model, messages, tools: toOpenAiTools(tools), stream: false }),
+      signal
+    });
+    await assertOk(response, 'Ollama');
+    const data = await response.json();
+    return fromOpenAiMessage(data.message);
+  },
+};
+
+export const llmProviders: Record<LlmProviderId, LlmProvider> = {
+  'gemini': geminiProvider,
+  'openai': openAiProvider,
+  'ollama': ollamaProvider,
+};
+
+export function getLlmProvider(id?: string | null): LlmProvider {
+  return llmProviders[id as LlmProviderId] ?? llmProviders[DEFAULT_LLM_PROVIDER];
+}
+
+export interface LlmSettings {
+  llm_provider?: string | null;
+  llm_model?: string | null;
+  llm_endpoint?: string | null;
+}
+
+// Fill in provider defaults for anything the user left blank. Gemini reuses
+// the Gemini key that embeddings already use.
+export function resolveLlm(
+  settings: LlmSettings | null,
+  keys: ProviderKeys
+): { provider: LlmProvider; config: LlmConfig } {
+  const provider = getLlmProvider(settings?.llm_provider);
+  return {
+    provider,
+    config: {
+      model: settings?.llm_model || provider.defaultModel,
+      endpoint: settings?.llm_endpoint || provider.defaultEndpoint,
+      apiKey: provider.id === 'gemini' ? keys.gemini : keys.llm,
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Provider API keys live encrypted in Vault (see user_provider_keys). Only the
+// service role can decrypt them, and they never leave the edge functions.
+export interface ProviderKeys {
+  gemini?: string;
+  llm?: string;
+}
+
+export async function loadProviderKeys(supabase: SupabaseClient, userId: string): Promise<ProviderKeys> {
+  const { data, error } = await supabase.rpc('get_provider_keys', { target_user_id: userId });
+  if (error) throw error;
+
+  const keys: ProviderKeys = {};
+  for (const row of (data ?? []) as { provider: keyof ProviderKeys; api_key: string }[]) {
+    keys[row.provider] = row.api_key;
+  }
+  return keys;
+}
@@ -0,0 +1,71 @@
+// Optional restrictions on which notes chat retrieval searches. Filters
+// combine: a note must match every one that is set.
+
+import { ValidationError } from './validation.ts';
+
+export interface ChatScope {
+  noteIds?: string[];
+  tags?: string[];
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+const MAX_SCOPE_ITEMS = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new ValidationError(`scope.${field}`, 'must be an array of strings');
+  }
+  if (value.length > MAX_SCOPE_ITEMS) {
+    throw new ValidationError(`scope.${field}`, `may contain at most ${MAX_SCOPE_ITEMS} entries`);
+  }
+  return value.length > 0 ? value : undefined;
+}
+
+function parseDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new ValidationError(`scope.${field}`, 'must be an ISO date');
+  }
+  return new Date(value).toISOString();
+}
+
+export function parseScope(value: unknown): ChatScope {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('scope', 'must be an object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const noteIds = parseStringList(raw.noteIds, 'noteIds');
+  if (noteIds?.some(id => !UUID_PATTERN.test(id))) {
+    throw new ValidationError('scope.noteIds', 'must contain note ids');
+  }
+
+  const scope: ChatScope = {
+    noteIds,
+    tags: parseStringList(raw.tags, 'tags'),
+    updatedAfter: parseDate(raw.updatedAfter, 'updatedAfter'),
+    updatedBefore: parseDate(raw.updatedBefore, 'updatedBefore'),
+  };
+  if (scope.updatedAfter && scope.updatedBefore && scope.updatedAfter >= scope.updatedBefore) {
+    throw new ValidationError('scope.updatedAfter', 'must be before scope.updatedBefore');
+  }
+  return scope;
+}
+
+export function isScoped(scope: ChatScope): boolean {
+  return Object.values(scope).some(value => value !== undefined);
+}
+
+// Arguments for hybrid_search_embeddings; unset filters stay NULL
+export function scopeSearchArgs(scope: ChatScope) {
+  return {
+    filter_note_ids: scope.noteIds,
+    filter_tags: scope.tags,
+    updated_after: scope.updatedAfter,
+    updated_before: scope.updatedBefore,
+  };
+}
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { AuthContext } from './auth.ts';
+import { HttpError } from './http.ts';
+import { CHARS_PER_TOKEN } from './conversation.ts';
+
+// Usage metering and per-user rate limits for the AI functions. Limits live in
+// the usage_limits table; every call is recorded in function_usage.
+
+interface ExceededLimit {
+  limit_name: string;
+  limit_value: number;
+  used: number;
+  retry_after_seconds: number;
+}
+
+const LIMIT_LABELS: Record<string, string> = {
+  requests_per_minute: 'requests per minute',
+  requests_per_day: 'requests per day',
+  tokens_per_day: 'tokens per day',
+};
+
+export class RateLimitError extends HttpError {
+  constructor(readonly limit: ExceededLimit) {
+    super(
+      429,
+      'rate_limited',
+      `Rate limit reached: ${limit.limit_value} ${LIMIT_LABELS[limit.limit_name] ?? limit.limit_name}. ` +
+        `Try again in ${limit.retry_after_seconds} seconds.`,
+      { limit: limit.limit_name, limitValue: limit.limit_value, used: limit.used, retryAfter: limit.retry_after_seconds },
+      { 'Retry-After': String(limit.retry_after_seconds) }
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+export async function enforceRateLimit(supabase: SupabaseClient, userId: string, functionName: string): Promise<void> {
+  const { data, error } = await supabase.rpc('check_rate_limit', {
+    target_user_id: userId,
+    target_function: functionName,
+  });
+
+  // Metering must not take the function down with it
+  if (error) {
+    console.error('Rate limit check failed:', error);
+    return;
+  }
+
+  const exceeded = (data ?? []) as ExceededLimit[];
+  if (exceeded.length > 0) {
+    // Report the limit that keeps the caller waiting longest
+    throw new RateLimitError(exceeded.reduce((a, b) => (b.retry_after_seconds > a.retry_after_seconds ? b : a)));
+  }
+}
+
+// Collects what one request used and writes it once the request is over.
+// Tokens are estimated from text length, as not every provider reports them.
+export class UsageMeter {
+  private charsIn = 0;
+  private charsOut = 0;
+  private finished = false;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly userId: string,
+    private readonly functionName: string
+  ) {}
+
+  addText(input: string, output = ''): void {
+    this.charsIn += input.length;
+    this.charsOut += output.length;
+  }
+
+  async finish(statusCode: number): Promise<void> {
+    if (this.finished) return;
+    this.finished = true;
+
+    const { error } = await this.supabase.from('function_usage').insert({
+      user_id: this.userId,
+      function_name: this.functionName,
+      status_code: statusCode,
+      tokens_in: Math.ceil(this.charsIn / CHARS_PER_TOKEN),
+      tokens_out: Math.ceil(this.charsOut / CHARS_PER_TOKEN),
+      latency_ms: Date.now() - this.startedAt,
+    });
+
+    if (error) {
+      console.error('Error recording usage:', error);
+    }
+  }
+}
+
+// Record the usage once the last byte has been sent or the client hangs up
+function finishAfterBody(body: ReadableStream<Uint8Array>, onDone: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+        onDone();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      onDone();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Middleware for metered functions (inside withUser): rejects callers over
+// their limits with a 429, and records status, tokens and latency per call.
+// Streamed responses are recorded when the stream ends.
+export function withUsage(
+  functionName: string,
+  handler: (req: Request, context: AuthContext & { usage: UsageMeter }) => Promise<Response>
+): (req: Request, context: AuthContext) => Promise<Response> {
+  return async (req, context) => {
+    const usage = new UsageMeter(context.supabase, context.userId, functionName);
+
+    let response: Response;
+    try {
+      await enforceRateLimit(context.supabase, context.userId, functionName);
+      response = await handler(req, { ...context, usage });
+    } catch (error) {
+      await usage.finish(error instanceof HttpError ? error.status : 500);
+      throw error;
+    }
+
+    if (response.headers.get('Content-Type') === 'text/event-stream' && response.body) {
+      const body = finishAfterBody(response.body, () => usage.finish(response.status));
+      return new Response(body, { status: response.status, headers: response.headers });
+    }
+
+    await usage.finish(response.status);
+    return response;
+  };
+}
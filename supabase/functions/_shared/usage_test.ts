@@ -0,0 +1,82 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { AuthContext } from './auth.ts';
+import { errorResponse, sseHeaders } from './http.ts';
+import { RateLimitError, withUsage } from './usage.ts';
+
+// Just enough of a client for check_rate_limit and the function_usage insert
+function fakeContext(exceeded: unknown[] = []) {
+  const inserted: Record<string, unknown>[] = [];
+  const supabase = {
+    rpc: () => Promise.resolve({ data: exceeded, error: null }),
+    from: () => ({
+      insert: (row: Record<string, unknown>) => {
+        inserted.push(row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  } as unknown as SupabaseClient;
+
+  const context = { supabase, user: { id: 'user-1' }, userId: 'user-1' } as unknown as AuthContext;
+  return { context, inserted };
+}
+
+const request = () => new Request('http://localhost/', { method: 'POST' });
+
+Deno.test('withUsage records status and estimated tokens', async () => {
+  const { context, inserted } = fakeContext();
+  const handler = withUsage('chat', (_req, { usage }) => {
+    usage.addText('12345678', '1234');
+    return Promise.resolve(new Response('ok'));
+  });
+
+  await handler(request(), context);
+
+  assertEquals(inserted.length, 1);
+  assertEquals(inserted[0].function_name, 'chat');
+  assertEquals(inserted[0].status_code, 200);
+  assertEquals(inserted[0].tokens_in, 2);
+  assertEquals(inserted[0].tokens_out, 1);
+});
+
+Deno.test('withUsage rejects callers over a limit with a 429 and Retry-After', async () => {
+  const { context, inserted } = fakeContext([
+    { limit_name: 'requests_per_minute', limit_value: 20, used: 20, retry_after_seconds: 12 },
+    { limit_name: 'requests_per_day', limit_value: 500, used: 500, retry_after_seconds: 3600 },
+  ]);
+  let called = false;
+  const handler = withUsage('chat', () => {
+    called = true;
+    return Promise.resolve(new Response('ok'));
+  });
+
+  const error = await assertRejects(() => handler(request(), context), RateLimitError);
+  const response = errorResponse(error);
+
+  assertEquals(called, false);
+  assertEquals(response.status, 429);
+  assertEquals(response.headers.get('Retry-After'), '3600');
+  assertEquals((await response.json()).code, 'rate_limited');
+  assertEquals(inserted[0].status_code, 429);
+});
+
+Deno.test('withUsage records streamed responses once the stream ends', async () => {
+  const { context, inserted } = fakeContext();
+  const handler = withUsage('chat', (_req, { usage }) => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        usage.addText('', 'streamed');
+        controller.enqueue(new TextEncoder().encode('data: {}\n\n'));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: sseHeaders }));
+  });
+
+  const response = await handler(request(), context);
+  assertEquals(inserted.length, 0);
+
+  await response.text();
+  assertEquals(inserted.length, 1);
+  assertEquals(inserted[0].tokens_out, 2);
+});
@@ -0,0 +1,112 @@
+import { HttpError } from './http.ts';
+
+// Small typed validators for request bodies. Each one checks an unknown value
+// and returns it typed, or throws a 400 naming the offending field.
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export class ValidationError extends HttpError {
+  constructor(readonly path: string, problem: string) {
+    super(400, 'bad_request', `${path || 'body'} ${problem}`, { path: path || 'body' });
+    this.name = 'ValidationError';
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function string(options: { min?: number; max?: number } = {}): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') throw new ValidationError(path, 'must be a string');
+    const length = value.trim().length;
+    if (options.min !== undefined && length < options.min) {
+      throw new ValidationError(path, options.min === 1 ? 'is required' : `must be at least ${options.min} characters`);
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      throw new ValidationError(path, `must be at most ${options.max} characters`);
+    }
+    return value;
+  };
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Validator<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ValidationError(path, 'must be a number');
+    if (options.integer && !Number.isInteger(value)) throw new ValidationError(path, 'must be an integer');
+    if (options.min !== undefined && value < options.min) throw new ValidationError(path, `must be at least ${options.min}`);
+    if (options.max !== undefined && value > options.max) throw new ValidationError(path, `must be at most ${options.max}`);
+    return value;
+  };
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') throw new ValidationError(path, 'must be true or false');
+    return value;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new ValidationError(path, `must be one of ${values.map(v => `"${v}"`).join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+export function array<T>(item: Validator<T>, options: { max?: number } = {}): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, 'must be an array');
+    if (options.max !== undefined && value.length > options.max) {
+      throw new ValidationError(path, `may contain at most ${options.max} entries`);
+    }
+    return value.map((entry, index) => item(entry, join(path, index)));
+  };
+}
+
+// Unknown keys are dropped rather than rejected, so older clients keep working
+export function object<S extends Record<string, Validator<unknown>>>(
+  shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new ValidationError(path, 'must be an object');
+    }
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [key, validate] of Object.entries(shape)) {
+      result[key] = validate(record[key], join(path, key));
+    }
+    return result as { [K in keyof S]: Infer<S[K]> };
+  };
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined>;
+export function optional<T>(validator: Validator<T>, fallback: T): Validator<T>;
+export function optional<T>(validator: Validator<T>, fallback?: T): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? fallback : validator(value, path));
+}
+
+// Passes the value through untouched, for fields a dedicated parser checks
+export function unknown(): Validator<unknown> {
+  return (value) => value;
+}
+
+// Parse and validate a JSON body. An empty body counts as {}.
+export async function parseJsonBody<T>(req: Request, validator: Validator<T>): Promise<T> {
+  const text = await req.text();
+  let body: unknown = {};
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new HttpError(400, 'bad_request', 'Request body must be valid JSON');
+    }
+  }
+  return validator(body, '');
+}
@@ -0,0 +1,60 @@
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { HttpError } from './http.ts';
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseJsonBody,
+  string,
+  ValidationError,
+} from './validation.ts';
+
+const request = object({
+  message: string({ min: 1, max: 20 }),
+  stream: optional(boolean(), false),
+  mode: optional(oneOf(['fast', 'thorough'] as const)),
+  limit: optional(number({ min: 1, max: 10, integer: true }), 5),
+  tags: optional(array(string(), { max: 2 })),
+});
+
+function post(body: string): Request {
+  return new Request('http://localhost/', { method: 'POST', body });
+}
+
+Deno.test('object validates fields and fills defaults', () => {
+  assertEquals(request({ message: 'hi', extra: true }, ''), {
+    message: 'hi',
+    stream: false,
+    mode: undefined,
+    limit: 5,
+    tags: undefined,
+  });
+});
+
+Deno.test('errors name the offending field', () => {
+  const error = assertThrows(() => request({ message: '  ' }, ''), ValidationError);
+  assertEquals(error.message, 'message is required');
+  assertEquals(error.status, 400);
+  assertEquals(error.details, { path: 'message' });
+
+  assertThrows(() => request({ message: 'hi', tags: ['a', 3] }, ''), ValidationError, 'tags[1] must be a string');
+  assertThrows(() => request({ message: 'hi', tags: ['a', 'b', 'c'] }, ''), ValidationError, 'tags may contain at most 2');
+  assertThrows(() => request({ message: 'hi', mode: 'slow' }, ''), ValidationError, 'mode must be one of "fast", "thorough"');
+  assertThrows(() => request({ message: 'hi', limit: 2.5 }, ''), ValidationError, 'limit must be an integer');
+  assertThrows(() => request({ message: 'hi', stream: 'yes' }, ''), ValidationError, 'stream must be true or false');
+  assertThrows(() => request([], ''), ValidationError, 'body must be an object');
+});
+
+Deno.test('parseJsonBody treats an empty body as {}', async () => {
+  const body = await parseJsonBody(post(''), object({ force: optional(boolean(), false) }));
+  assertEquals(body, { force: false });
+});
+
+Deno.test('parseJsonBody rejects malformed JSON with a 400', async () => {
+  const error = await assertRejects(() => parseJsonBody(post('{"message":'), request), HttpError);
+  assertEquals(error.status, 400);
+  assertEquals(error.code, 'bad_request');
+});
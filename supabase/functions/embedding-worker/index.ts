@@ -0,0 +1,103 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { resolveEmbeddingProvider, type EmbeddingContext, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import { indexNote } from '../_shared/indexing.ts';
+import { handleRequest, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient, requireServiceRole } from '../_shared/auth.ts';
+
+const BATCH_SIZE = 10;
+const MAX_BACKOFF_MINUTES = 60;
+
+interface QueuedJob {
+  note_id: string;
+  user_id: string;
+  enqueued_at: string;
+  attempts: number;
+}
+
+// Drains the embedding_queue filled by the notes triggers. Invoked by pg_cron.
+serve(handleRequest('embedding-worker', async (req) => {
+  // Only the scheduler (service role) may run the worker
+  requireServiceRole(req);
+  const supabase = createServiceClient();
+
+  const { data: jobs, error: claimError } = await supabase.rpc('claim_embedding_jobs', {
+    batch_size: BATCH_SIZE
+  });
+
+  if (claimError) throw claimError;
+
+  const providers = new Map<string, { provider: EmbeddingProvider; context: EmbeddingContext }>();
+  let succeeded = 0;
+  let failed = 0;
+
+  for (const job of (jobs ?? []) as QueuedJob[]) {
+    try {
+      const { data: note, error: noteError } = await supabase
+        .from('notes')
+        .select('id, title, content')
+        .eq('id', job.note_id)
+        .eq('user_id', job.user_id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (noteError) throw noteError;
+
+      if (note) {
+        if (!providers.has(job.user_id)) {
+          providers.set(job.user_id, await resolveEmbeddingProvider(supabase, job.user_id));
+        }
+        const { provider, context } = providers.get(job.user_id)!;
+        // indexNote skips chunks that failed to embed; retry the note rather
+        // than leave it partly indexed
+        const { chunksProcessed, totalChunks } = await indexNote(supabase, job.user_id, note, provider, context);
+        if (chunksProcessed < totalChunks) {
+          throw new Error(`Only ${chunksProcessed} of ${totalChunks} chunks were embedded`);
+        }
+      }
+
+      // A save that landed while we were embedding re-enqueued the note; keep that job
+      await supabase
+        .from('embedding_queue')
+        .delete()
+        .eq('note_id', job.note_id)
+        .eq('enqueued_at', job.enqueued_at);
+
+      await supabase
+        .from('embedding_queue')
+        .update({ locked_at: null })
+        .eq('note_id', job.note_id);
+
+      succeeded++;
+    } catch (error) {
+      console.error(`Embedding job failed for note ${job.note_id}:`, error);
+
+      const backoffMinutes = Math.min(2 ** job.attempts, MAX_BACKOFF_MINUTES);
+      await supabase
+        .from('embedding_queue')
+        .update({
+          locked_at: null,
+          last_error: (error as Error).message,
+          run_after: new Date(Date.now() + backoffMinutes * 60_000).toISOString()
+        })
+        .eq('note_id', job.note_id)
+        // A newer save re-enqueued the note; leave that job to run on time
+        .eq('enqueued_at', job.enqueued_at);
+
+      await supabase
+        .from('embedding_queue')
+        .update({ locked_at: null })
+        .eq('note_id', job.note_id);
+
+      failed++;
+    }
+  }
+
+  console.log(`Embedding worker processed ${jobs?.length ?? 0} jobs: ${succeeded} ok, ${failed} failed`);
+
+  return jsonResponse({
+    processed: jobs?.length ?? 0,
+    succeeded,
+    failed
+  });
+}));
@@ -1,177 +1,112 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { embedText, getEmbeddingProvider } from '../_shared/embeddings.ts';
+import { handleRequest, HttpError, jsonResponse } from '../_shared/http.ts';
+import { withUser } from '../_shared/auth.ts';
+import { loadProviderKeys } from '../_shared/providerKeys.ts';
+import { object, parseJsonBody, string } from '../_shared/validation.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+const chatRequest = object({
+  message: string({ min: 1 }),
+});
 
-interface ChatRequest {
-  message: string;
-}
+serve(handleRequest('gemini-chat-hf', withUser(async (req, { supabase, userId }) => {
+  const { message } = await parseJsonBody(req, chatRequest);
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { message }: ChatRequest = await req.json();
-    
-    if (!message) {
-      throw new Error('Message is required');
-    }
+  console.log(`Processing chat request from user ${userId}: "${message}"`);
 
-    // Create Supabase client with auth context
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  // Get user's Gemini API key
+  const { gemini: geminiApiKey } = await loadProviderKeys(supabase, userId);
 
-    // Get authenticated user from JWT token
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Authorization header required');
-    }
-
-    const jwt = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
-    
-    if (userError || !user) {
-      throw new Error('Invalid authentication token');
-    }
-
-    const userId = user.id;
-    console.log(`Processing chat request from user ${userId}: "${message}"`);
-
-    // Get user's Gemini API key
-    const { data: settingsData, error: settingsError } = await supabase
-      .from('user_settings')
-      .select('gemini_api_key')
-      .eq('user_id', userId)
-      .single();
-
-    if (settingsError || !settingsData?.gemini_api_key) {
-      return new Response(JSON.stringify({ 
-        error: 'Gemini API key not found. Please add your API key in settings.' 
-      }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+  if (!geminiApiKey) {
+    throw new HttpError(400, 'bad_request', 'Gemini API key not found. Please add your API key in settings.');
+  }
 
-    const geminiApiKey = settingsData.gemini_api_key;
-
-    // Generate query embedding using HuggingFace (FREE!)
-    console.log('Generating query embedding...');
-    const queryEmbeddingResponse = await fetch(
-      'https://api-inference.huggingface.co/pipeline/feature-extraction/sentence-transformers/all-MiniLM-L6-v2',
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          inputs: message,
-          options: { wait_for_model: true }
-        })
-      }
-    );
-
-    if (!queryEmbeddingResponse.ok) {
-      const errorText = await queryEmbeddingResponse.text();
-      console.error('HuggingFace query embedding error:', errorText);
-      throw new Error(`Failed to generate query embedding: ${errorText}`);
+  // Generate query embedding using HuggingFace (FREE!)
+  console.log('Generating query embedding...');
+  const embeddingProvider = getEmbeddingProvider('huggingface');
+  const queryEmbedding = await embedText(embeddingProvider, message, {});
+
+  console.log(`Generated query embedding with ${queryEmbedding.length} dimensions`);
+
+  // Search for similar embeddings using Supabase vector similarity (FREE!)
+  console.log('Searching for similar embeddings...');
+  const { data: matches, error: searchError } = await supabase.rpc(
+    'match_embeddings',
+    {
+      query_embedding: queryEmbedding,
+      match_threshold: 0.1, // Lower threshold for better recall
+      match_count: 8,       // More results for better context
+      user_id: userId,
+      embedding_model: embeddingProvider.model
     }
+  );
 
-    const queryEmbeddingData = await queryEmbeddingResponse.json();
-    let queryEmbedding;
-    if (Array.isArray(queryEmbeddingData)) {
-      queryEmbedding = queryEmbeddingData;
-    } else if (queryEmbeddingData.embeddings) {
-      queryEmbedding = queryEmbeddingData.embeddings;
-    } else {
-      throw new Error('Unexpected embedding format from HuggingFace');
-    }
+  if (searchError) {
+    console.error('Search error:', searchError);
+  }
 
-    console.log(`Generated query embedding with ${queryEmbedding.length} dimensions`);
-
-    // Search for similar embeddings using Supabase vector similarity (FREE!)
-    console.log('Searching for similar embeddings...');
-    const { data: matches, error: searchError } = await supabase.rpc(
-      'match_embeddings',
-      {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.1, // Lower threshold for better recall
-        match_count: 8,       // More results for better context
-        user_id: userId
-      }
-    );
-
-    if (searchError) {
-      console.error('Search error:', searchError);
-    }
+  console.log(`Found ${matches?.length || 0} matching chunks`);
 
-    console.log(`Found ${matches?.length || 0} matching chunks`);
+  // Get relevant notes content
+  let context = '';
+  let sourceNotes: Array<{id: string, title: string, similarity: number}> = [];
 
-    // Get relevant notes content
-    let context = '';
-    let sourceNotes: Array<{id: string, title: string, similarity: number}> = [];
+  if (matches && matches.length > 0) {
+    console.log(`Processing ${matches.length} matches`);
+    const noteIds = [...new Set(matches.map((match: any) => match.note_id))];
+    console.log(`Fetching ${noteIds.length} unique notes`);
+    
+    const { data: notesData, error: notesError } = await supabase
+      .from('notes')
+      .select('id, title, content')
+      .in('id', noteIds)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
 
-    if (matches && matches.length > 0) {
-      console.log(`Processing ${matches.length} matches`);
-      const noteIds = [...new Set(matches.map((match: any) => match.note_id))];
-      console.log(`Fetching ${noteIds.length} unique notes`);
+    if (!notesError && notesData) {
+      console.log(`Retrieved ${notesData.length} notes from database`);
       
-      const { data: notesData, error: notesError } = await supabase
-        .from('notes')
-        .select('id, title, content')
-        .in('id', noteIds)
-        .eq('user_id', userId);
-
-      if (!notesError && notesData) {
-        console.log(`Retrieved ${notesData.length} notes from database`);
-        
-        // Create context and track note relevance
-        const noteContexts = notesData.map(note => {
-          const noteMatches = matches.filter((match: any) => match.note_id === note.id);
-          const avgSimilarity = noteMatches.reduce((sum: number, match: any) => sum + match.similarity, 0) / noteMatches.length;
-          
-          // Include relevant chunks from this note
-          const relevantChunks = noteMatches
-            .sort((a: any, b: any) => b.similarity - a.similarity)
-            .slice(0, 3) // Top 3 chunks per note
-            .map((match: any) => match.content_chunk);
-          
-          return {
-            note,
-            similarity: avgSimilarity,
-            contextText: `Note: "${note.title}"\nContent: ${relevantChunks.join('\n...\n')}`
-          };
-        });
-
-        // Sort by relevance and create context
-        noteContexts.sort((a, b) => b.similarity - a.similarity);
-        context = noteContexts.map(nc => nc.contextText).join('\n\n---\n\n');
+      // Create context and track note relevance
+      const noteContexts = notesData.map(note => {
+        const noteMatches = matches.filter((match: any) => match.note_id === note.id);
+        const avgSimilarity = noteMatches.reduce((sum: number, match: any) => sum + match.similarity, 0) / noteMatches.length;
         
-        // Track source notes with similarity scores
-        sourceNotes = noteContexts.map(nc => ({
-          id: nc.note.id,
-          title: nc.note.title,
-          similarity: nc.similarity
-        }));
+        // Include relevant chunks from this note
+        const relevantChunks = noteMatches
+          .sort((a: any, b: any) => b.similarity - a.similarity)
+          .slice(0, 3) // Top 3 chunks per note
+          .map((match: any) => match.content_chunk);
         
-        console.log(`Created context from ${noteContexts.length} notes, total length: ${context.length} chars`);
-      } else {
-        console.error('Error fetching notes:', notesError);
-      }
+        return {
+          note,
+          similarity: avgSimilarity,
+          contextText: `Note: "${note.title}"\nContent: ${relevantChunks.join('\n...\n')}`
+        };
+      });
+
+      // Sort by relevance and create context
+      noteContexts.sort((a, b) => b.similarity - a.similarity);
+      context = noteContexts.map(nc => nc.contextText).join('\n\n---\n\n');
+      
+      // Track source notes with similarity scores
+      sourceNotes = noteContexts.map(nc => ({
+        id: nc.note.id,
+        title: nc.note.title,
+        similarity: nc.similarity
+      }));
+      
+      console.log(`Created context from ${noteContexts.length} notes, total length: ${context.length} chars`);
     } else {
-      console.log('No matching embeddings found');
+      console.error('Error fetching notes:', notesError);
     }
+  } else {
+    console.log('No matching embeddings found');
+  }
 
-    // Generate response using Gemini
-    const prompt = context 
-      ? `You are an AI assistant that ONLY answers questions based on the user's provided notes. Your role is to help users find information from their personal note collection.
+  // Generate response using Gemini
+  const prompt = context 
+    ? `You are an AI assistant that ONLY answers questions based on the user's provided notes. Your role is to help users find information from their personal note collection.
 
 IMPORTANT RULES:
 1. ONLY use information from the provided context below
@@ -187,63 +122,51 @@ ${context}
 User question: ${message}
 
 Please provide a helpful answer based only on the information in your notes above. When referencing specific information, mention which note it comes from.`
-      : `Reply with: No notes available so I can't answer this question.`;
-
-    console.log('Context available:', !!context);
-    console.log('Source notes count:', sourceNotes.length);
-    console.log('Sending request to Gemini...');
-
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: prompt }]
-          }]
-        })
-      }
-    );
-
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      console.error('Gemini API error:', errorText);
-      throw new Error(`Gemini API error: ${geminiResponse.statusText}`);
+    : `Reply with: No notes available so I can't answer this question.`;
+
+  console.log('Context available:', !!context);
+  console.log('Source notes count:', sourceNotes.length);
+  console.log('Sending request to Gemini...');
+
+  const geminiResponse = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{ text: prompt }]
+        }]
+      })
     }
+  );
 
-    const geminiData = await geminiResponse.json();
-    const response = geminiData.candidates[0].content.parts[0].text;
-    
-    console.log(`Generated response: ${response.length} characters`);
-    console.log(`Returning ${sourceNotes.slice(0, 4).length} source notes`);
-
-    return new Response(JSON.stringify({ 
-      response,
-      sourceNotes: sourceNotes.slice(0, 4).map(note => ({ 
-        id: note.id, 
-        title: note.title,
-        similarity: Math.round(note.similarity * 100) / 100
-      })),
-      debug: {
-        totalMatches: matches?.length || 0,
-        contextLength: context.length,
-        hasContext: !!context,
-        embeddingModel: 'sentence-transformers/all-MiniLM-L6-v2 (FREE)',
-        vectorDB: 'Supabase pgvector (FREE)',
-        responseModel: 'Gemini 1.5 Flash'
-      }
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
-
-  } catch (error) {
-    console.error('Error in gemini-chat-hf function:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message 
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+  if (!geminiResponse.ok) {
+    const errorText = await geminiResponse.text();
+    console.error('Gemini API error:', errorText);
+    throw new HttpError(502, 'upstream_error', `Gemini API error: ${geminiResponse.statusText}`);
   }
-});
\ No newline at end of file
+
+  const geminiData = await geminiResponse.json();
+  const response = geminiData.candidates[0].content.parts[0].text;
+  
+  console.log(`Generated response: ${response.length} characters`);
+  console.log(`Returning ${sourceNotes.slice(0, 4).length} source notes`);
+
+  return jsonResponse({
+    response,
+    sourceNotes: sourceNotes.slice(0, 4).map(note => ({ 
+      id: note.id, 
+      title: note.title,
+      similarity: Math.round(note.similarity * 100) / 100
+    })),
+    debug: {
+      totalMatches: matches?.length || 0,
+      contextLength: context.length,
+      hasContext: !!context,
+      embeddingModel: 'sentence-transformers/all-MiniLM-L6-v2 (FREE)',
+      vectorDB: 'Supabase pgvector (FREE)',
+      responseModel: 'Gemini 1.5 Flash'
+    }
+  });
+})));
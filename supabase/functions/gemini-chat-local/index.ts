@@ -1,268 +1,370 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface ChatRequest {
-  message: string;
+import { embedText, getEmbeddingProvider } from '../_shared/embeddings.ts';
+import { encodeSseEvent } from '../_shared/sse.ts';
+import { parseHistory, rewriteRetrievalQuery, trimHistory, type ChatTurn } from '../_shared/conversation.ts';
+import { resolveLlm, type LlmConfig, type LlmMessage, type LlmProvider } from '../_shared/llm.ts';
+import { isScoped, parseScope, scopeSearchArgs } from '../_shared/scope.ts';
+import { CHAT_ACTION_TOOLS, parseProposedActions, type ChatAction } from '../_shared/actions.ts';
+import { handleRequest, HttpError, jsonResponse, sseHeaders } from '../_shared/http.ts';
+import { withUser } from '../_shared/auth.ts';
+import { withUsage, type UsageMeter } from '../_shared/usage.ts';
+import { loadProviderKeys } from '../_shared/providerKeys.ts';
+import { boolean, object, optional, parseJsonBody, string, unknown } from '../_shared/validation.ts';
+
+const chatRequest = object({
+  message: string({ min: 1 }),
+  // Checked by parseHistory / parseScope
+  history: unknown(),
+  stream: optional(boolean(), false),
+  // Let the model propose tasks and note edits via tool calls
+  actions: optional(boolean(), false),
+  // Restrict retrieval to some notes, tags or an updated_at range
+  scope: unknown(),
+});
+
+interface MatchedChunk {
+  chunk_id: string;
+  note_id: string;
+  char_start: number | null;
+  char_end: number | null;
+  content_chunk: string;
+  heading_path: string[] | null;
+  code_language: string | null;
+  similarity: number;
+  keyword_rank: number;
+  score: number;
 }
 
+function sectionLabel(match: MatchedChunk): string {
+  return match.heading_path && match.heading_path.length > 0
+    ? match.heading_path.join(' › ')
+    : 'Introduction';
+}
 
-// Pure local embedding function - no external dependencies or API calls
-function generateLocalEmbedding(text: string): number[] {
-  const words = text.toLowerCase().replace(/[^\w\s]/g, '').split(/\s+/).filter(w => w.length > 0);
-  const embedding = new Array(384).fill(0);
-  
-  // Simple but effective word-based embedding
-  words.forEach((word, index) => {
-    const wordHash = hashString(word);
-    for (let i = 0; i < Math.min(word.length, 10); i++) {
-      const charCode = word.charCodeAt(i);
-      const pos = (wordHash + i * 17) % 384;
-      embedding[pos] += Math.sin(charCode * 0.1) * (1 / Math.sqrt(index + 1));
-    }
-  });
-  
-  // Character trigrams for better context
-  for (let i = 0; i < text.length - 2; i++) {
-    const trigram = text.slice(i, i + 3).toLowerCase();
-    const trigramHash = hashString(trigram);
-    const pos1 = trigramHash % 384;
-    const pos2 = (trigramHash * 7) % 384;
-    embedding[pos1] += 0.2;
-    embedding[pos2] += 0.1;
-  }
-  
-  // Normalize the embedding
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  if (magnitude > 0) {
-    for (let i = 0; i < embedding.length; i++) {
-      embedding[i] = embedding[i] / magnitude;
-    }
-  }
-  
-  return embedding;
+// A numbered passage the model may cite as [n]
+interface Citation {
+  number: number;
+  noteId: string;
+  noteTitle: string;
+  chunkId: string;
+  section: string;
+  charStart: number | null;
+  charEnd: number | null;
 }
 
-function hashString(str: string): number {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash);
+// Earlier turns go to the model as real conversation turns, the prompt as the last one
+function buildMessages(history: ChatTurn[], prompt: string): LlmMessage[] {
+  return [
+    ...history.map((turn): LlmMessage => ({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.content
+    })),
+    { role: 'user', content: prompt }
+  ];
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+// Relay the provider's text stream as our own SSE events: `sources` first,
+// then a `token` per text delta, then `done` (or `error`). Aborting the client
+// request aborts the upstream model call.
+function streamChatResponse(
+  llm: LlmProvider,
+  config: LlmConfig,
+  messages: LlmMessage[],
+  signal: AbortSignal,
+  meta: Record<string, unknown>,
+  usage: UsageMeter
+): Response {
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encodeSseEvent('sources', meta));
+
+      try {
+        let length = 0;
+        for await (const text of llm.stream(messages, config, upstream.signal)) {
+          length += text.length;
+          usage.addText('', text);
+          controller.enqueue(encodeSseEvent('token', { text }));
+        }
+
+        console.log(`Streamed response: ${length} characters`);
+        controller.enqueue(encodeSseEvent('done', {}));
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          console.log('Chat stream aborted by client');
+          return;
+        }
+        console.error(`Error streaming ${llm.label} response:`, error);
+        controller.enqueue(encodeSseEvent('error', { error: (error as Error).message }));
+      }
 
-  try {
-    const { message }: ChatRequest = await req.json();
-    
-    if (!message) {
-      throw new Error('Message is required');
+      controller.close();
+    },
+    cancel() {
+      upstream.abort();
     }
+  });
 
-    // Create Supabase client with auth context
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Get authenticated user from JWT token
-    const authHeader = req.headers.get('Authorization');
-    if (!authHeader) {
-      throw new Error('Authorization header required');
-    }
+  return new Response(body, { headers: sseHeaders });
+}
 
-    const jwt = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabase.auth.getUser(jwt);
-    
-    if (userError || !user) {
-      throw new Error('Invalid authentication token');
+// Tool calls only come back in one piece, so in actions mode a streaming client
+// gets the whole answer as a single `token`, followed by an `actions` event
+function replayChatResponse(text: string, actions: ChatAction[], meta: Record<string, unknown>): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encodeSseEvent('sources', meta));
+      if (text) controller.enqueue(encodeSseEvent('token', { text }));
+      controller.enqueue(encodeSseEvent('actions', { actions }));
+      controller.enqueue(encodeSseEvent('done', {}));
+      controller.close();
     }
+  });
 
-    const userId = user.id;
-    console.log(`Processing chat request from user ${userId}: "${message}"`);
+  return new Response(body, { headers: sseHeaders });
+}
 
-    // Get user's Gemini API key
-    const { data: settingsData, error: settingsError } = await supabase
-      .from('user_settings')
-      .select('gemini_api_key')
-      .eq('user_id', userId)
-      .single();
-
-    if (settingsError || !settingsData?.gemini_api_key) {
-      return new Response(JSON.stringify({ 
-        error: 'Gemini API key not found. Please add your API key in settings.' 
-      }), {
-        status: 400,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
-    }
+serve(handleRequest('gemini-chat-local', withUser(withUsage('gemini-chat-local', async (req, { supabase, userId, usage }) => {
+  const {
+    message,
+    history: rawHistory,
+    stream,
+    actions,
+    scope: rawScope
+  } = await parseJsonBody(req, chatRequest);
+
+  const history = trimHistory(parseHistory(rawHistory));
+  const scope = parseScope(rawScope);
+
+  console.log(`Processing chat request from user ${userId}: "${message}"`);
+
+  // Get user's model and embedding settings
+  const { data: settingsData } = await supabase
+    .from('user_settings')
+    .select('embedding_provider, llm_provider, llm_model, llm_endpoint')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const keys = await loadProviderKeys(supabase, userId);
+  const geminiApiKey = keys.gemini;
+  const { provider: llm, config: llmConfig } = resolveLlm(settingsData, keys);
+
+  if (llm.requiresApiKey && !llmConfig.apiKey) {
+    throw new HttpError(400, 'bad_request', `${llm.label} API key not found. Please add your API key in settings.`);
+  }
 
-    const geminiApiKey = settingsData.gemini_api_key;
+  const embeddingProvider = getEmbeddingProvider(settingsData?.embedding_provider);
 
-    // Generate query embedding using pure local algorithm (NO external dependencies!)
-    console.log('Generating query embedding with local algorithm...');
-    const queryEmbedding = generateLocalEmbedding(message);
+  // Follow-up questions are rewritten into a standalone query before retrieval
+  const retrievalQuery = await rewriteRetrievalQuery(
+    history,
+    message,
+    async rewritePrompt => {
+      const rewritten = await llm.generate([{ role: 'user', content: rewritePrompt }], llmConfig);
+      usage.addText(rewritePrompt, rewritten);
+      return rewritten;
+    }
+  );
+  if (retrievalQuery !== message) {
+    console.log(`Rewrote retrieval query: "${retrievalQuery}"`);
+  }
 
-    console.log(`Generated local query embedding with ${queryEmbedding.length} dimensions`);
+  // Embed the query with the same provider that indexed the notes
+  console.log(`Generating query embedding with ${embeddingProvider.model}...`);
+  const queryEmbedding = await embedText(embeddingProvider, retrievalQuery, { geminiApiKey });
+
+  console.log(`Generated query embedding with ${queryEmbedding.length} dimensions`);
+
+  // Hybrid search: vector similarity fused with full-text keyword matches,
+  // so exact identifiers and error codes are found too
+  console.log(`Running hybrid search${isScoped(scope) ? ` scoped to ${JSON.stringify(scope)}` : ''}...`);
+  const { data: matches, error: searchError } = await supabase.rpc(
+    'hybrid_search_embeddings',
+    {
+      query_text: retrievalQuery,
+      query_embedding: queryEmbedding,
+      match_threshold: 0.1, // Lower threshold for better recall
+      match_count: 8,       // More results for better context
+      user_id: userId,
+      embedding_model: embeddingProvider.model,
+      ...scopeSearchArgs(scope)
+    }
+  );
 
-    // Search for similar embeddings using Supabase vector similarity (FREE!)
-    console.log('Searching for similar embeddings...');
-    const { data: matches, error: searchError } = await supabase.rpc(
-      'match_embeddings',
-      {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.1, // Lower threshold for better recall
-        match_count: 8,       // More results for better context
-        user_id: userId
-      }
-    );
+  if (searchError) {
+    console.error('Search error:', searchError);
+  }
 
-    if (searchError) {
-      console.error('Search error:', searchError);
-    }
+  console.log(`Found ${matches?.length || 0} matching chunks`);
 
-    console.log(`Found ${matches?.length || 0} matching chunks`);
+  // Get relevant notes content
+  let context = '';
+  let sourceNotes: Array<{id: string, title: string, similarity: number, sections: string[]}> = [];
+  const citations: Citation[] = [];
 
-    // Get relevant notes content
-    let context = '';
-    let sourceNotes: Array<{id: string, title: string, similarity: number}> = [];
+  if (matches && matches.length > 0) {
+    console.log(`Processing ${matches.length} matches`);
+    const matchedChunks = matches as MatchedChunk[];
+    const noteIds = [...new Set(matchedChunks.map(match => match.note_id))];
+    console.log(`Fetching ${noteIds.length} unique notes`);
+    
+    const { data: notesData, error: notesError } = await supabase
+      .from('notes')
+      .select('id, title, content')
+      .in('id', noteIds)
+      .eq('user_id', userId)
+      .is('deleted_at', null);
 
-    if (matches && matches.length > 0) {
-      console.log(`Processing ${matches.length} matches`);
-      const noteIds = [...new Set(matches.map((match: any) => match.note_id))];
-      console.log(`Fetching ${noteIds.length} unique notes`);
+    if (!notesError && notesData) {
+      console.log(`Retrieved ${notesData.length} notes from database`);
       
-      const { data: notesData, error: notesError } = await supabase
-        .from('notes')
-        .select('id, title, content')
-        .in('id', noteIds)
-        .eq('user_id', userId);
-
-      if (!notesError && notesData) {
-        console.log(`Retrieved ${notesData.length} notes from database`);
+      // Create context and track note relevance
+      const noteContexts = notesData.map(note => {
+        const noteMatches = matchedChunks.filter(match => match.note_id === note.id);
+        const avgSimilarity = noteMatches.reduce((sum, match) => sum + match.similarity, 0) / noteMatches.length;
+        const bestScore = Math.max(...noteMatches.map(match => match.score));
         
-        // Create context and track note relevance
-        const noteContexts = notesData.map(note => {
-          const noteMatches = matches.filter((match: any) => match.note_id === note.id);
-          const avgSimilarity = noteMatches.reduce((sum: number, match: any) => sum + match.similarity, 0) / noteMatches.length;
-          
-          // Include relevant chunks from this note
-          const relevantChunks = noteMatches
-            .sort((a: any, b: any) => b.similarity - a.similarity)
-            .slice(0, 3) // Top 3 chunks per note
-            .map((match: any) => match.content_chunk);
-          
-          return {
-            note,
-            similarity: avgSimilarity,
-            contextText: `Note: "${note.title}"\nContent: ${relevantChunks.join('\n...\n')}`
+        // Include relevant chunks from this note, labelled with their section
+        const relevantChunks = noteMatches
+          .sort((a, b) => b.score - a.score)
+          .slice(0, 3); // Top 3 chunks per note
+
+        return {
+          note,
+          similarity: avgSimilarity,
+          score: bestScore,
+          chunks: relevantChunks,
+          sections: [...new Set(relevantChunks.filter(match => match.heading_path?.length).map(sectionLabel))]
+        };
+      });
+
+      // Sort by relevance, then number every passage in reading order
+      noteContexts.sort((a, b) => b.score - a.score);
+      context = noteContexts.map(nc => {
+        const chunkTexts = nc.chunks.map(match => {
+          const citation: Citation = {
+            number: citations.length + 1,
+            noteId: nc.note.id,
+            noteTitle: nc.note.title,
+            chunkId: match.chunk_id,
+            section: sectionLabel(match),
+            charStart: match.char_start,
+            charEnd: match.char_end
           };
-        });
+          citations.push(citation);
 
-        // Sort by relevance and create context
-        noteContexts.sort((a, b) => b.similarity - a.similarity);
-        context = noteContexts.map(nc => nc.contextText).join('\n\n---\n\n');
-        
-        // Track source notes with similarity scores
-        sourceNotes = noteContexts.map(nc => ({
-          id: nc.note.id,
-          title: nc.note.title,
-          similarity: nc.similarity
-        }));
-        
-        console.log(`Created context from ${noteContexts.length} notes, total length: ${context.length} chars`);
-      } else {
-        console.error('Error fetching notes:', notesError);
-      }
+          const language = match.code_language ? `, ${match.code_language} code` : '';
+          return `[${citation.number}] Section: ${citation.section}${language}\n${match.content_chunk}`;
+        });
+        // Actions refer to notes by id, so the model needs to see them
+        const noteId = actions ? ` (id: ${nc.note.id})` : '';
+        return `Note: "${nc.note.title}"${noteId}\n${chunkTexts.join('\n...\n')}`;
+      }).join('\n\n---\n\n');
+      
+      // Track source notes with similarity scores
+      sourceNotes = noteContexts.map(nc => ({
+        id: nc.note.id,
+        title: nc.note.title,
+        similarity: nc.similarity,
+        sections: nc.sections
+      }));
+      
+      console.log(`Created context from ${noteContexts.length} notes, total length: ${context.length} chars`);
     } else {
-      console.log('No matching embeddings found');
+      console.error('Error fetching notes:', notesError);
     }
+  } else {
+    console.log('No matching embeddings found');
+  }
 
-    // Generate response using Gemini
-    const prompt = context 
-      ? `You are an AI assistant that ONLY answers questions based on the user's provided notes. Your role is to help users find information from their personal note collection.
+  // Generate response with the user's chat model
+  const prompt = context 
+    ? `You are an AI assistant that ONLY answers questions based on the user's provided notes. Your role is to help users find information from their personal note collection.
 
 IMPORTANT RULES:
 1. ONLY use information from the provided context below
-2. If the context doesn't contain enough information to answer the question, say "I don't have info to provide that answer"
-3. Do not use any external knowledge or make assumptions beyond what's in the context
-4. When referencing information, mention which note it comes from by using the note title in quotes
-5. Keep responses concise and helpful
-6. If you find relevant information but it's incomplete, acknowledge what you found and mention what's missing
+2. Use the earlier conversation only to understand what the question refers to
+3. If the context doesn't contain enough information to answer the question, say "I don't have info to provide that answer"
+4. Do not use any external knowledge or make assumptions beyond what's in the context
+5. Cite every fact with the number of the passage it comes from in square brackets, e.g. [1] or [2][3]. Only use numbers that appear in the context
+6. Keep responses concise and helpful
+7. If you find relevant information but it's incomplete, acknowledge what you found and mention what's missing${actions ? `
+8. If the user asks for follow-up work or a summary to be saved, propose it with the create_task or append_to_note tools, using note ids from the context. Proposals are only applied after the user confirms them` : ''}
 
 Context from your notes (ordered by relevance):
 ${context}
 
 User question: ${message}
 
-Please provide a helpful answer based only on the information in your notes above. When referencing specific information, mention which note it comes from.`
+Please provide a helpful answer based only on the information in your notes above, citing passages by number.`
+    : isScoped(scope)
+      ? `Reply with: I don't have info to provide that answer in the selected notes. Try widening the chat scope.`
       : `Reply with: I don't have info to provide that answer`;
 
-    console.log('Context available:', !!context);
-    console.log('Source notes count:', sourceNotes.length);
-    console.log('Sending request to Gemini...');
-
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: prompt }]
-          }]
-        })
-      }
-    );
+  console.log('Context available:', !!context);
+  console.log('Source notes count:', sourceNotes.length);
+  console.log(`Sending request to ${llm.label} (${llmConfig.model}) with ${history.length} history turns...`);
+
+  const meta = {
+    sourceNotes: sourceNotes.slice(0, 4).map(note => ({ 
+      id: note.id, 
+      title: note.title,
+      similarity: Math.round(note.similarity * 100) / 100,
+      sections: note.sections
+    })),
+    citations,
+    debug: {
+      totalMatches: matches?.length || 0,
+      keywordMatches: (matches as MatchedChunk[] | null)?.filter(match => match.keyword_rank > 0).length || 0,
+      contextLength: context.length,
+      hasContext: !!context,
+      historyTurns: history.length,
+      retrievalQuery,
+      scope,
+      embeddingModel: `${embeddingProvider.model} (${embeddingProvider.id})`,
+      vectorDB: 'Supabase pgvector (FREE)',
+      responseModel: `${llmConfig.model} (${llm.id})`
+    }
+  };
+
+  const llmMessages = buildMessages(history, prompt);
+  usage.addText(llmMessages.map(llmMessage => llmMessage.content).join('\n'));
+
+  if (actions) {
+    const result = await llm.generateWithTools(llmMessages, CHAT_ACTION_TOOLS, llmConfig, req.signal);
+    const knownNotes = new Map(sourceNotes.map(note => [note.id, note.title]));
+    const proposedActions = parseProposedActions(result.toolCalls, knownNotes);
+    const text = result.text || (proposedActions.length > 0 ? 'Here is what I suggest:' : '');
+    usage.addText('', result.text + JSON.stringify(result.toolCalls));
 
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text();
-      console.error('Gemini API error:', errorText);
-      throw new Error(`Gemini API error: ${geminiResponse.statusText}`);
+    console.log(`Generated response: ${text.length} characters, ${proposedActions.length} proposed actions`);
+
+    if (stream) {
+      return replayChatResponse(text, proposedActions, meta);
     }
 
-    const geminiData = await geminiResponse.json();
-    const response = geminiData.candidates[0].content.parts[0].text;
-    
-    console.log(`Generated response: ${response.length} characters`);
-    console.log(`Returning ${sourceNotes.slice(0, 4).length} source notes`);
-
-    return new Response(JSON.stringify({ 
-      response,
-      sourceNotes: sourceNotes.slice(0, 4).map(note => ({ 
-        id: note.id, 
-        title: note.title,
-        similarity: Math.round(note.similarity * 100) / 100
-      })),
-      debug: {
-        totalMatches: matches?.length || 0,
-        contextLength: context.length,
-        hasContext: !!context,
-        embeddingModel: 'Local Text Embeddings (No Dependencies)',
-        vectorDB: 'Supabase pgvector (FREE)',
-        responseModel: 'Gemini 1.5 Flash'
-      }
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    return jsonResponse({
+      response: text,
+      actions: proposedActions,
+      ...meta
     });
+  }
 
-  } catch (error) {
-    console.error('Error in gemini-chat-hf function:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message 
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+  if (stream) {
+    return streamChatResponse(llm, llmConfig, llmMessages, req.signal, meta, usage);
   }
-});
\ No newline at end of file
+
+  const response = await llm.generate(llmMessages, llmConfig);
+  usage.addText('', response);
+
+  console.log(`Generated response: ${response.length} characters`);
+  console.log(`Returning ${meta.sourceNotes.length} source notes`);
+
+  return jsonResponse({
+    response,
+    ...meta
+  });
+}))));
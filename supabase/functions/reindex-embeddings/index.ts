@@ -0,0 +1,310 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getEmbeddingProvider, resolveEmbeddingProvider } from '../_shared/embeddings.ts';
+import { indexNote } from '../_shared/indexing.ts';
+import { handleRequest, HttpError, jsonResponse } from '../_shared/http.ts';
+import { withUser } from '../_shared/auth.ts';
+import { boolean, number, object, oneOf, optional, parseJsonBody, string } from '../_shared/validation.ts';
+
+// Provided by the Supabase edge runtime
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+const DEFAULT_BATCH_SIZE = 5;
+
+const reindexRequest = object({
+  action: optional(oneOf(['start', 'process', 'cancel'] as const), 'start'),
+  jobId: optional(string()),
+  // start: re-embed every note instead of only those missing the active model
+  force: optional(boolean(), false),
+  // start: keep processing inside the function instead of waiting for client batches
+  background: optional(boolean(), false),
+  batchSize: optional(number({ integer: true }), DEFAULT_BATCH_SIZE),
+});
+
+interface ReindexJob {
+  id: string;
+  user_id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  provider: string;
+  model: string;
+  force: boolean;
+  total_notes: number;
+  heartbeat_at: string;
+}
+
+interface ProcessedItem {
+  noteId: string;
+  title: string;
+  status: 'done' | 'failed';
+  chunksProcessed: number;
+  error?: string;
+}
+
+async function getProgress(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase
+    .from('reindex_job_items')
+    .select('status')
+    .eq('job_id', jobId);
+
+  if (error) throw error;
+
+  const progress = { total: 0, done: 0, failed: 0, pending: 0 };
+  for (const item of data ?? []) {
+    progress.total++;
+    if (item.status === 'done') progress.done++;
+    else if (item.status === 'failed') progress.failed++;
+    else progress.pending++;
+  }
+  return progress;
+}
+
+async function startJob(
+  supabase: SupabaseClient,
+  userId: string,
+  force: boolean
+): Promise<{ job: ReindexJob; resumed: boolean }> {
+  const { provider } = await resolveEmbeddingProvider(supabase, userId);
+
+  const { data: runningJob, error: runningError } = await supabase
+    .from('reindex_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'running')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (runningError) throw runningError;
+
+  if (runningJob) {
+    // An unfinished job for the active model is resumed rather than started
+    // over, unless it only covers missing vectors and this start is forced
+    const covers = runningJob.provider === provider.id
+      && runningJob.model === provider.model
+      && (runningJob.force || !force);
+    if (covers) {
+      return { job: runningJob, resumed: true };
+    }
+
+    await supabase
+      .from('reindex_jobs')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', runningJob.id)
+      .eq('status', 'running');
+    console.log(`Cancelled reindex job ${runningJob.id}, superseded by a new ${force ? 'forced ' : ''}job`);
+  }
+
+  const { data: notes, error: notesError } = await supabase
+    .from('notes')
+    .select('id, title')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (notesError) throw notesError;
+
+  let targets = notes ?? [];
+  if (!force) {
+    // Skip notes that already have vectors from the active model
+    const { data: indexedRows, error: indexedError } = await supabase
+      .from('notes_embeddings')
+      .select('note_id')
+      .eq('user_id', userId)
+      .eq('model', provider.model);
+
+    if (indexedError) throw indexedError;
+
+    const indexedNoteIds = new Set((indexedRows ?? []).map(row => row.note_id));
+    targets = targets.filter(note => !indexedNoteIds.has(note.id));
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('reindex_jobs')
+    .insert({
+      user_id: userId,
+      provider: provider.id,
+      model: provider.model,
+      force,
+      total_notes: targets.length,
+      status: targets.length > 0 ? 'running' : 'completed',
+      completed_at: targets.length > 0 ? null : new Date().toISOString()
+    })
+    .select()
+    .single();
+
+  if (jobError) throw jobError;
+
+  if (targets.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('reindex_job_items')
+      .insert(targets.map(note => ({
+        job_id: job.id,
+        user_id: userId,
+        note_id: note.id,
+        note_title: note.title
+      })));
+
+    if (itemsError) throw itemsError;
+  }
+
+  console.log(`Created reindex job ${job.id} for ${targets.length} notes (${provider.model})`);
+  return { job, resumed: false };
+}
+
+async function processBatch(
+  supabase: SupabaseClient,
+  job: ReindexJob,
+  batchSize: number
+): Promise<ProcessedItem[]> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_reindex_items', {
+    target_job_id: job.id,
+    batch_size: batchSize
+  });
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return [];
+
+  // Embed with the provider the job was started for, credentials from current settings
+  const provider = getEmbeddingProvider(job.provider);
+  const { context } = await resolveEmbeddingProvider(supabase, job.user_id);
+
+  const processed: ProcessedItem[] = [];
+  for (const item of claimed) {
+    // Shows the job as still being worked on while slow notes embed
+    await supabase
+      .from('reindex_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', job.id);
+
+    try {
+      const { data: note, error: noteError } = await supabase
+        .from('notes')
+        .select('id, title, content')
+        .eq('id', item.note_id)
+        .eq('user_id', job.user_id)
+        .is('deleted_at', null)
+        .single();
+
+      if (noteError || !note) {
+        throw new Error('Note not found');
+      }
+
+      const { chunksProcessed, totalChunks } = await indexNote(supabase, job.user_id, note, provider, context);
+      if (chunksProcessed < totalChunks) {
+        throw new Error(`Only ${chunksProcessed} of ${totalChunks} chunks were embedded`);
+      }
+
+      await supabase
+        .from('reindex_job_items')
+        .update({ status: 'done', chunks_processed: chunksProcessed, error: null })
+        .eq('id', item.id);
+
+      processed.push({ noteId: item.note_id, title: note.title, status: 'done', chunksProcessed });
+    } catch (error) {
+      console.error(`Re-index failed for note ${item.note_id}:`, error);
+
+      await supabase
+        .from('reindex_job_items')
+        .update({ status: 'failed', error: (error as Error).message })
+        .eq('id', item.id);
+
+      processed.push({
+        noteId: item.note_id,
+        title: item.note_title,
+        status: 'failed',
+        chunksProcessed: 0,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  return processed;
+}
+
+// False once the job was cancelled (or finished) by another request
+async function isJobRunning(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase
+    .from('reindex_jobs')
+    .select('status')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+  return data.status === 'running';
+}
+
+async function finishIfDone(supabase: SupabaseClient, job: ReindexJob) {
+  const progress = await getProgress(supabase, job.id);
+
+  if (progress.pending === 0 && job.status === 'running') {
+    await supabase
+      .from('reindex_jobs')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', job.id);
+    job.status = 'completed';
+  }
+
+  return progress;
+}
+
+serve(handleRequest('reindex-embeddings', withUser(async (req, { supabase, userId }) => {
+  const { action, jobId, force, background, batchSize } = await parseJsonBody(req, reindexRequest);
+
+  if (action === 'start') {
+    const { job, resumed } = await startJob(supabase, userId, force);
+
+    if (background && job.status === 'running') {
+      // Respond straight away and keep embedding until the job drains
+      EdgeRuntime.waitUntil((async () => {
+        let batch: ProcessedItem[];
+        do {
+          if (!(await isJobRunning(supabase, job.id))) {
+            console.log(`Stopped background reindex job ${job.id}: no longer running`);
+            return;
+          }
+          batch = await processBatch(supabase, job, DEFAULT_BATCH_SIZE);
+        } while (batch.length > 0);
+        await finishIfDone(supabase, job);
+        console.log(`Finished background reindex job ${job.id}`);
+      })());
+    }
+
+    const progress = await getProgress(supabase, job.id);
+    return jsonResponse({ job, resumed, progress, items: [] }, { status: background ? 202 : 200 });
+  }
+
+  if (!jobId) {
+    throw new HttpError(400, 'bad_request', 'jobId is required');
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('reindex_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single();
+
+  if (jobError || !job) {
+    throw new HttpError(404, 'not_found', 'Reindex job not found');
+  }
+
+  if (action === 'cancel') {
+    await supabase
+      .from('reindex_jobs')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('status', 'running');
+
+    const progress = await getProgress(supabase, job.id);
+    return jsonResponse({ job: { ...job, status: 'cancelled' }, progress, items: [] });
+  }
+
+  const items = job.status === 'running'
+    ? await processBatch(supabase, job, Math.min(Math.max(batchSize, 1), 20))
+    : [];
+  const progress = await finishIfDone(supabase, job);
+
+  console.log(`Reindex job ${job.id}: ${progress.done} done, ${progress.failed} failed, ${progress.pending} pending`);
+
+  return jsonResponse({ job, progress, items });
+})));
@@ -0,0 +1,4 @@
+-- Drop the hash-based vectors produced by the old generateLocalEmbedding.
+-- They are not comparable with the all-MiniLM-L6-v2 sentence embeddings (same
+-- 384 dimensions, different space), so notes are re-embedded by the client.
+DELETE FROM public.notes_embeddings;
@@ -0,0 +1,71 @@
+-- Record which embedding provider/model produced each vector so providers with
+-- different dimensions (384 local / HuggingFace, 768 Gemini) can coexist
+ALTER TABLE public.notes_embeddings
+  ALTER COLUMN embedding TYPE vector USING embedding::vector;
+
+ALTER TABLE public.notes_embeddings
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'local-onnx',
+  ADD COLUMN IF NOT EXISTS model TEXT NOT NULL DEFAULT 'Xenova/all-MiniLM-L6-v2',
+  ADD COLUMN IF NOT EXISTS dimensions INTEGER NOT NULL DEFAULT 384;
+
+ALTER TABLE public.notes_embeddings
+  ADD CONSTRAINT notes_embeddings_dimensions_check
+  CHECK (embedding IS NULL OR vector_dims(embedding) = dimensions);
+
+CREATE INDEX IF NOT EXISTS notes_embeddings_user_model_idx
+  ON public.notes_embeddings(user_id, model);
+
+-- Active embedding provider per user (see _shared/embeddings.ts for the registry)
+ALTER TABLE public.user_settings
+  ADD COLUMN IF NOT EXISTS embedding_provider TEXT NOT NULL DEFAULT 'local-onnx'
+  CHECK (embedding_provider IN ('local-hash', 'local-onnx', 'gemini', 'huggingface'));
+
+-- Replace the fixed-dimension search with one that only compares vectors
+-- produced by the same model
+DROP FUNCTION IF EXISTS public.match_embeddings(vector, float, int, uuid);
+
+CREATE OR REPLACE FUNCTION public.match_embeddings(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  user_id uuid,
+  embedding_model text
+)
+RETURNS TABLE (
+  note_id uuid,
+  content_chunk text,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  -- notes_embeddings mixes vector sizes and <=> raises on mismatched
+  -- dimensions. The planner may compute distances before applying a plain
+  -- WHERE, so filter to the query's model in a materialized CTE first.
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      notes_embeddings.note_id,
+      notes_embeddings.content_chunk,
+      notes_embeddings.embedding
+    FROM notes_embeddings
+    WHERE notes_embeddings.user_id = match_embeddings.user_id
+      AND notes_embeddings.model = match_embeddings.embedding_model
+      AND notes_embeddings.dimensions = vector_dims(query_embedding)
+  )
+  SELECT
+    candidates.note_id,
+    candidates.content_chunk,
+    1 - (candidates.embedding <=> query_embedding) AS similarity
+  FROM candidates
+  WHERE 1 - (candidates.embedding <=> query_embedding) > match_threshold
+  ORDER BY candidates.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Filters on a caller-supplied user_id, so only the service-role edge
+-- functions may call it
+REVOKE EXECUTE ON FUNCTION public.match_embeddings(vector, float, int, uuid, text) FROM PUBLIC, anon, authenticated;
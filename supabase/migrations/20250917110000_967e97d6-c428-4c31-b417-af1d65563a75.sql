@@ -0,0 +1,95 @@
+-- Bulk re-index jobs: one row per run, one item per note so progress and
+-- failures can be reported per note and an interrupted run can be resumed
+CREATE TABLE public.reindex_jobs (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    -- Re-embeds every note rather than only those missing vectors from `model`
+    force BOOLEAN NOT NULL DEFAULT false,
+    total_notes INTEGER NOT NULL DEFAULT 0,
+    -- Bumped whenever a worker claims or finishes items; a running job whose
+    -- heartbeat has gone stale was interrupted and can be resumed
+    heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.reindex_job_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES public.reindex_jobs(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+    note_title TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+    chunks_processed INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(job_id, note_id)
+);
+
+-- Enable Row Level Security (writes go through the reindex-embeddings function)
+ALTER TABLE public.reindex_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reindex_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reindex jobs" 
+ON public.reindex_jobs 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own reindex job items" 
+ON public.reindex_job_items 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_reindex_jobs_updated_at
+BEFORE UPDATE ON public.reindex_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_reindex_job_items_updated_at
+BEFORE UPDATE ON public.reindex_job_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX reindex_jobs_user_id_idx ON public.reindex_jobs(user_id, created_at DESC);
+CREATE INDEX reindex_job_items_job_status_idx ON public.reindex_job_items(job_id, status);
+
+-- Claim the next batch of items for a worker. Items left in 'processing' by an
+-- interrupted worker are reclaimed once they go stale.
+CREATE OR REPLACE FUNCTION public.claim_reindex_items(
+  target_job_id uuid,
+  batch_size int
+)
+RETURNS SETOF public.reindex_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE reindex_jobs SET heartbeat_at = now() WHERE reindex_jobs.id = target_job_id;
+
+  RETURN QUERY
+  UPDATE reindex_job_items
+  SET status = 'processing'
+  WHERE id IN (
+    SELECT reindex_job_items.id
+    FROM reindex_job_items
+    WHERE reindex_job_items.job_id = target_job_id
+      AND (
+        reindex_job_items.status = 'pending'
+        OR (reindex_job_items.status = 'processing' AND reindex_job_items.updated_at < now() - interval '5 minutes')
+      )
+    ORDER BY reindex_job_items.created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the edge function (service role) claims work
+REVOKE EXECUTE ON FUNCTION public.claim_reindex_items(uuid, int) FROM PUBLIC, anon, authenticated;
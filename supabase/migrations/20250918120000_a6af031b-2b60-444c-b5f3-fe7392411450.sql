@@ -0,0 +1,109 @@
+-- Content hash per chunk so the indexer only re-embeds chunks whose text changed
+ALTER TABLE public.notes_embeddings ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS notes_embeddings_note_hash_idx
+  ON public.notes_embeddings(note_id, content_hash);
+
+-- One pending embedding job per note. Every save pushes run_after forward, so a
+-- burst of saves while typing collapses into a single job once editing pauses.
+CREATE TABLE public.embedding_queue (
+    note_id UUID NOT NULL PRIMARY KEY REFERENCES public.notes(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    enqueued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT
+);
+
+-- Enable Row Level Security (the queue is only touched by triggers and the worker)
+ALTER TABLE public.embedding_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own embedding jobs" 
+ON public.embedding_queue 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX embedding_queue_run_after_idx ON public.embedding_queue(run_after);
+
+CREATE OR REPLACE FUNCTION public.enqueue_note_embedding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO embedding_queue (note_id, user_id, enqueued_at, run_after, attempts, last_error)
+  VALUES (NEW.id, NEW.user_id, now(), now() + interval '30 seconds', 0, NULL)
+  ON CONFLICT (note_id) DO UPDATE
+  SET enqueued_at = now(),
+      run_after = now() + interval '30 seconds',
+      attempts = 0,
+      last_error = NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_note_embedding_on_insert
+AFTER INSERT ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.enqueue_note_embedding();
+
+CREATE TRIGGER enqueue_note_embedding_on_update
+AFTER UPDATE OF title, content ON public.notes
+FOR EACH ROW
+WHEN (OLD.title IS DISTINCT FROM NEW.title OR OLD.content IS DISTINCT FROM NEW.content)
+EXECUTE FUNCTION public.enqueue_note_embedding();
+
+-- Claim due jobs for the embedding-worker function. Locks older than five
+-- minutes belong to a worker that died and are handed out again.
+CREATE OR REPLACE FUNCTION public.claim_embedding_jobs(batch_size int)
+RETURNS SETOF public.embedding_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE embedding_queue
+  SET locked_at = now(),
+      attempts = embedding_queue.attempts + 1
+  WHERE note_id IN (
+    SELECT embedding_queue.note_id
+    FROM embedding_queue
+    WHERE embedding_queue.run_after <= now()
+      AND (embedding_queue.locked_at IS NULL OR embedding_queue.locked_at < now() - interval '5 minutes')
+    ORDER BY embedding_queue.run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_embedding_jobs(int) FROM PUBLIC, anon, authenticated;
+
+-- Queue every existing note once so it picks up content hashes
+INSERT INTO public.embedding_queue (note_id, user_id)
+SELECT id, user_id FROM public.notes
+ON CONFLICT (note_id) DO NOTHING;
+
+-- Run the worker every minute. Requires the `project_url` and
+-- `service_role_key` secrets in Vault (Dashboard -> Project Settings -> Vault).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'embedding-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/embedding-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
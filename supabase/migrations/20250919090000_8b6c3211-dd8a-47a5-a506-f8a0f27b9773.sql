@@ -0,0 +1,61 @@
+-- Section metadata for markdown-aware chunks
+ALTER TABLE public.notes_embeddings
+  ADD COLUMN IF NOT EXISTS heading_path TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS code_language TEXT;
+
+-- Return the section metadata so chat answers can cite it
+DROP FUNCTION IF EXISTS public.match_embeddings(vector, float, int, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.match_embeddings(
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  user_id uuid,
+  embedding_model text
+)
+RETURNS TABLE (
+  note_id uuid,
+  content_chunk text,
+  heading_path text[],
+  code_language text,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  -- Same model-filtered candidates as before, now with section metadata
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      notes_embeddings.note_id,
+      notes_embeddings.content_chunk,
+      notes_embeddings.heading_path,
+      notes_embeddings.code_language,
+      notes_embeddings.embedding
+    FROM notes_embeddings
+    WHERE notes_embeddings.user_id = match_embeddings.user_id
+      AND notes_embeddings.model = match_embeddings.embedding_model
+      AND notes_embeddings.dimensions = vector_dims(query_embedding)
+  )
+  SELECT
+    candidates.note_id,
+    candidates.content_chunk,
+    candidates.heading_path,
+    candidates.code_language,
+    1 - (candidates.embedding <=> query_embedding) AS similarity
+  FROM candidates
+  WHERE 1 - (candidates.embedding <=> query_embedding) > match_threshold
+  ORDER BY candidates.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+-- Service role only: user_id comes from the caller (see 20250916100000)
+REVOKE EXECUTE ON FUNCTION public.match_embeddings(vector, float, int, uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Re-chunk every note along its markdown structure
+INSERT INTO public.embedding_queue (note_id, user_id)
+SELECT id, user_id FROM public.notes
+ON CONFLICT (note_id) DO UPDATE SET run_after = now(), attempts = 0, last_error = NULL;
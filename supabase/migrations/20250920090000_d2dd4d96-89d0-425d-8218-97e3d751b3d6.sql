@@ -0,0 +1,83 @@
+-- Persisted AI chat conversations
+CREATE TABLE public.chat_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New chat',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.chat_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  -- Citations shown under an assistant reply: [{ id, title, similarity, sections }]
+  source_notes JSONB NOT NULL DEFAULT '[]',
+  is_error BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_sessions_user_updated ON public.chat_sessions (user_id, updated_at DESC);
+CREATE INDEX idx_chat_messages_session_created ON public.chat_messages (session_id, created_at);
+
+ALTER TABLE public.chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- Chat session policies
+CREATE POLICY "Users can view their own chat sessions" 
+ON public.chat_sessions FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chat sessions" 
+ON public.chat_sessions FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chat sessions" 
+ON public.chat_sessions FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat sessions" 
+ON public.chat_sessions FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Chat message policies; messages may only be added to the user's own sessions
+CREATE POLICY "Users can view their own chat messages" 
+ON public.chat_messages FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chat messages" 
+ON public.chat_messages FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.chat_sessions s
+    WHERE s.id = session_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own chat messages" 
+ON public.chat_messages FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chat_sessions_updated_at
+  BEFORE UPDATE ON public.chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A new message moves its session to the top of the history list
+CREATE OR REPLACE FUNCTION public.touch_chat_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.chat_sessions
+  SET updated_at = now()
+  WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER touch_chat_session_on_message
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_chat_session();
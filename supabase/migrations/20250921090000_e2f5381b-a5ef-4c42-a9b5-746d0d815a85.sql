@@ -0,0 +1,8 @@
+-- Chat model provider chosen per user. Model and endpoint fall back to the
+-- provider's defaults when NULL; Gemini keeps using gemini_api_key.
+ALTER TABLE public.user_settings
+  ADD COLUMN llm_provider TEXT NOT NULL DEFAULT 'gemini'
+    CHECK (llm_provider IN ('gemini', 'openai', 'ollama')),
+  ADD COLUMN llm_model TEXT,
+  ADD COLUMN llm_endpoint TEXT,
+  ADD COLUMN llm_api_key TEXT;
@@ -0,0 +1,117 @@
+-- Full-text search vectors for notes and their chunks. Identifiers like
+-- function names or error codes rarely embed well but match exactly here.
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.notes_embeddings
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', content_chunk)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector
+  ON public.notes USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_notes_embeddings_search_vector
+  ON public.notes_embeddings USING GIN (search_vector);
+
+-- Hybrid retrieval: rank chunks by vector similarity and by keyword relevance
+-- separately, then merge the two lists with reciprocal rank fusion
+-- (score = sum of 1 / (rrf_k + rank)). Keyword terms are OR-ed so a question
+-- containing one exact identifier still finds the chunk that mentions it.
+CREATE OR REPLACE FUNCTION public.hybrid_search_embeddings(
+  query_text text,
+  query_embedding vector,
+  match_count int,
+  user_id uuid,
+  embedding_model text,
+  match_threshold float DEFAULT 0.1,
+  candidate_count int DEFAULT 40,
+  rrf_k int DEFAULT 60
+)
+RETURNS TABLE (
+  note_id uuid,
+  content_chunk text,
+  heading_path text[],
+  code_language text,
+  similarity float,
+  keyword_rank float,
+  score float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  keyword_query tsquery := NULLIF(
+    replace(plainto_tsquery('english', query_text)::text, ' & ', ' | '),
+    ''
+  )::tsquery;
+BEGIN
+  RETURN QUERY
+  -- One candidate set, filtered to the query's model, feeds both rankings
+  -- (materialized for the reason given in 20250916100000)
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      notes_embeddings.id,
+      notes_embeddings.note_id,
+      notes_embeddings.content_chunk,
+      notes_embeddings.heading_path,
+      notes_embeddings.code_language,
+      notes_embeddings.embedding,
+      notes_embeddings.search_vector
+    FROM notes_embeddings
+    WHERE notes_embeddings.user_id = hybrid_search_embeddings.user_id
+      AND notes_embeddings.model = hybrid_search_embeddings.embedding_model
+      AND notes_embeddings.dimensions = vector_dims(query_embedding)
+  ),
+  vector_hits AS (
+    SELECT
+      candidates.id,
+      row_number() OVER (ORDER BY candidates.embedding <=> query_embedding) AS rank
+    FROM candidates
+    WHERE 1 - (candidates.embedding <=> query_embedding) > match_threshold
+    ORDER BY candidates.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_hits AS (
+    SELECT
+      candidates.id,
+      -- Normalization 32 maps the cover-density rank into [0, 1)
+      ts_rank_cd(candidates.search_vector, keyword_query, 32) AS rank_score,
+      row_number() OVER (ORDER BY ts_rank_cd(candidates.search_vector, keyword_query, 32) DESC) AS rank
+    FROM candidates
+    WHERE keyword_query IS NOT NULL
+      AND candidates.search_vector @@ keyword_query
+    ORDER BY rank_score DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_hits.id, keyword_hits.id) AS id,
+      COALESCE(keyword_hits.rank_score, 0) AS rank_score,
+      COALESCE(1.0 / (rrf_k + vector_hits.rank), 0) +
+      COALESCE(1.0 / (rrf_k + keyword_hits.rank), 0) AS fused_score
+    FROM vector_hits
+    FULL OUTER JOIN keyword_hits ON keyword_hits.id = vector_hits.id
+  )
+  SELECT
+    candidates.note_id,
+    candidates.content_chunk,
+    candidates.heading_path,
+    candidates.code_language,
+    (1 - (candidates.embedding <=> query_embedding))::float AS similarity,
+    fused.rank_score::float AS keyword_rank,
+    fused.fused_score::float AS score
+  FROM fused
+  JOIN candidates ON candidates.id = fused.id
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Filters on a caller-supplied user_id, so only the service-role edge
+-- functions may call it
+REVOKE EXECUTE ON FUNCTION public.hybrid_search_embeddings(text, vector, int, uuid, text, float, int, int) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,122 @@
+-- Character offsets of each chunk within its note, so chat citations can
+-- jump to the exact passage. NULL until the note is re-chunked.
+ALTER TABLE public.notes_embeddings
+  ADD COLUMN IF NOT EXISTS char_start INTEGER,
+  ADD COLUMN IF NOT EXISTS char_end INTEGER;
+
+-- Numbered citations stored with each assistant reply:
+-- [{ number, noteId, noteTitle, chunkId, section, charStart, charEnd }]
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]';
+
+-- Return chunk identity and offsets from hybrid search
+DROP FUNCTION IF EXISTS public.hybrid_search_embeddings(text, vector, int, uuid, text, float, int, int);
+
+CREATE OR REPLACE FUNCTION public.hybrid_search_embeddings(
+  query_text text,
+  query_embedding vector,
+  match_count int,
+  user_id uuid,
+  embedding_model text,
+  match_threshold float DEFAULT 0.1,
+  candidate_count int DEFAULT 40,
+  rrf_k int DEFAULT 60
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  note_id uuid,
+  chunk_index int,
+  char_start int,
+  char_end int,
+  content_chunk text,
+  heading_path text[],
+  code_language text,
+  similarity float,
+  keyword_rank float,
+  score float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  keyword_query tsquery := NULLIF(
+    replace(plainto_tsquery('english', query_text)::text, ' & ', ' | '),
+    ''
+  )::tsquery;
+BEGIN
+  RETURN QUERY
+  -- Candidates also carry the chunk id and offsets for citations
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      notes_embeddings.id,
+      notes_embeddings.note_id,
+      notes_embeddings.chunk_index,
+      notes_embeddings.char_start,
+      notes_embeddings.char_end,
+      notes_embeddings.content_chunk,
+      notes_embeddings.heading_path,
+      notes_embeddings.code_language,
+      notes_embeddings.embedding,
+      notes_embeddings.search_vector
+    FROM notes_embeddings
+    WHERE notes_embeddings.user_id = hybrid_search_embeddings.user_id
+      AND notes_embeddings.model = hybrid_search_embeddings.embedding_model
+      AND notes_embeddings.dimensions = vector_dims(query_embedding)
+  ),
+  vector_hits AS (
+    SELECT
+      candidates.id,
+      row_number() OVER (ORDER BY candidates.embedding <=> query_embedding) AS rank
+    FROM candidates
+    WHERE 1 - (candidates.embedding <=> query_embedding) > match_threshold
+    ORDER BY candidates.embedding <=> query_embedding
+    LIMIT candidate_count
+  ),
+  keyword_hits AS (
+    SELECT
+      candidates.id,
+      -- Normalization 32 maps the cover-density rank into [0, 1)
+      ts_rank_cd(candidates.search_vector, keyword_query, 32) AS rank_score,
+      row_number() OVER (ORDER BY ts_rank_cd(candidates.search_vector, keyword_query, 32) DESC) AS rank
+    FROM candidates
+    WHERE keyword_query IS NOT NULL
+      AND candidates.search_vector @@ keyword_query
+    ORDER BY rank_score DESC
+    LIMIT candidate_count
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vector_hits.id, keyword_hits.id) AS id,
+      COALESCE(keyword_hits.rank_score, 0) AS rank_score,
+      COALESCE(1.0 / (rrf_k + vector_hits.rank), 0) +
+      COALESCE(1.0 / (rrf_k + keyword_hits.rank), 0) AS fused_score
+    FROM vector_hits
+    FULL OUTER JOIN keyword_hits ON keyword_hits.id = vector_hits.id
+  )
+  SELECT
+    candidates.id,
+    candidates.note_id,
+    candidates.chunk_index,
+    candidates.char_start,
+    candidates.char_end,
+    candidates.content_chunk,
+    candidates.heading_path,
+    candidates.code_language,
+    (1 - (candidates.embedding <=> query_embedding))::float AS similarity,
+    fused.rank_score::float AS keyword_rank,
+    fused.fused_score::float AS score
+  FROM fused
+  JOIN candidates ON candidates.id = fused.id
+  ORDER BY fused.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Recreating the function restored the default grants; service role only
+REVOKE EXECUTE ON FUNCTION public.hybrid_search_embeddings(text, vector, int, uuid, text, float, int, int) FROM PUBLIC, anon, authenticated;
+
+-- Re-chunk every note to record offsets
+INSERT INTO public.embedding_queue (note_id, user_id)
+SELECT id, user_id FROM public.notes
+ON CONFLICT (note_id) DO UPDATE SET run_after = now(), attempts = 0, last_error = NULL;
@@ -0,0 +1,9 @@
+-- Actions the assistant proposed with a reply, and whether the user applied
+-- them: [{ id, type, status, ...fields }] with status pending/applied/dismissed
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS actions JSONB NOT NULL DEFAULT '[]';
+
+-- Confirming or dismissing a proposal updates the stored message
+CREATE POLICY "Users can update their own chat messages" 
+ON public.chat_messages FOR UPDATE 
+USING (auth.uid() = user_id);
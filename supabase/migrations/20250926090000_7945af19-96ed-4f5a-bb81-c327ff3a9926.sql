@@ -0,0 +1,165 @@
+-- One row per call to a metered edge function. Token counts are estimates
+-- (about four characters per token) since not every provider reports usage.
+CREATE TABLE public.function_usage (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    function_name TEXT NOT NULL,
+    status_code INTEGER NOT NULL,
+    tokens_in INTEGER NOT NULL DEFAULT 0,
+    tokens_out INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.function_usage ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge functions with the service role
+CREATE POLICY "Users can view their own usage" 
+ON public.function_usage FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX function_usage_user_function_created_idx
+  ON public.function_usage(user_id, function_name, created_at DESC);
+
+-- Request and token limits per function. A row without user_id is the default
+-- for everyone; a row for a specific user overrides it. NULL means unlimited.
+CREATE TABLE public.usage_limits (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    function_name TEXT NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    requests_per_minute INTEGER CHECK (requests_per_minute > 0),
+    requests_per_day INTEGER CHECK (requests_per_day > 0),
+    tokens_per_day INTEGER CHECK (tokens_per_day > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX usage_limits_default_idx
+  ON public.usage_limits(function_name) WHERE user_id IS NULL;
+CREATE UNIQUE INDEX usage_limits_user_idx
+  ON public.usage_limits(function_name, user_id) WHERE user_id IS NOT NULL;
+
+ALTER TABLE public.usage_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and default usage limits" 
+ON public.usage_limits FOR SELECT 
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE TRIGGER update_usage_limits_updated_at
+  BEFORE UPDATE ON public.usage_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.usage_limits (function_name, requests_per_minute, requests_per_day, tokens_per_day) VALUES
+  ('gemini-chat-local', 20, 500, 1000000),
+  ('generate-embeddings-local', 60, 2000, NULL);
+
+-- Limits the user has reached for a function, empty when the call may go
+-- ahead. Windows are rolling; rejected (429) calls don't count against them.
+CREATE OR REPLACE FUNCTION public.check_rate_limit(target_user_id uuid, target_function text)
+RETURNS TABLE (
+  limit_name text,
+  limit_value int,
+  used bigint,
+  retry_after_seconds int
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  limits usage_limits%ROWTYPE;
+BEGIN
+  SELECT * INTO limits
+  FROM usage_limits
+  WHERE usage_limits.function_name = target_function
+    AND (usage_limits.user_id = target_user_id OR usage_limits.user_id IS NULL)
+  ORDER BY usage_limits.user_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF limits.requests_per_minute IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      'requests_per_minute'::text,
+      limits.requests_per_minute,
+      count(*),
+      GREATEST(1, ceil(extract(epoch FROM min(function_usage.created_at) + interval '1 minute' - now())))::int
+    FROM function_usage
+    WHERE function_usage.user_id = target_user_id
+      AND function_usage.function_name = target_function
+      AND function_usage.status_code <> 429
+      AND function_usage.created_at > now() - interval '1 minute'
+    HAVING count(*) >= limits.requests_per_minute;
+  END IF;
+
+  IF limits.requests_per_day IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      'requests_per_day'::text,
+      limits.requests_per_day,
+      count(*),
+      GREATEST(1, ceil(extract(epoch FROM min(function_usage.created_at) + interval '1 day' - now())))::int
+    FROM function_usage
+    WHERE function_usage.user_id = target_user_id
+      AND function_usage.function_name = target_function
+      AND function_usage.status_code <> 429
+      AND function_usage.created_at > now() - interval '1 day'
+    HAVING count(*) >= limits.requests_per_day;
+  END IF;
+
+  IF limits.tokens_per_day IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      'tokens_per_day'::text,
+      limits.tokens_per_day,
+      sum(function_usage.tokens_in + function_usage.tokens_out)::bigint,
+      GREATEST(1, ceil(extract(epoch FROM min(function_usage.created_at) + interval '1 day' - now())))::int
+    FROM function_usage
+    WHERE function_usage.user_id = target_user_id
+      AND function_usage.function_name = target_function
+      AND function_usage.created_at > now() - interval '1 day'
+    HAVING sum(function_usage.tokens_in + function_usage.tokens_out) >= limits.tokens_per_day;
+  END IF;
+END;
+$$;
+
+-- Reads any user's usage by target_user_id, so only the service-role edge
+-- functions may call it
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Usage per function bucketed by day or month, for the Settings dashboard.
+-- Runs as the caller, so RLS limits it to their own rows.
+CREATE OR REPLACE FUNCTION public.get_usage_summary(bucket text, since timestamptz)
+RETURNS TABLE (
+  bucket_start timestamptz,
+  function_name text,
+  requests bigint,
+  rejected bigint,
+  errors bigint,
+  tokens_in bigint,
+  tokens_out bigint,
+  avg_latency_ms float
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc(CASE WHEN bucket = 'month' THEN 'month' ELSE 'day' END, function_usage.created_at) AS bucket_start,
+    function_usage.function_name,
+    count(*) AS requests,
+    count(*) FILTER (WHERE function_usage.status_code = 429) AS rejected,
+    count(*) FILTER (WHERE function_usage.status_code >= 400 AND function_usage.status_code <> 429) AS errors,
+    sum(function_usage.tokens_in)::bigint AS tokens_in,
+    sum(function_usage.tokens_out)::bigint AS tokens_out,
+    avg(function_usage.latency_ms)::float AS avg_latency_ms
+  FROM function_usage
+  WHERE function_usage.user_id = auth.uid()
+    AND function_usage.created_at >= since
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
@@ -0,0 +1,141 @@
+-- Provider API keys move out of user_settings into Vault. The browser only
+-- ever sees whether a key is set and its last four characters; the edge
+-- functions read the decrypted keys through get_provider_keys.
+CREATE EXTENSION IF NOT EXISTS supabase_vault;
+
+CREATE TABLE public.user_provider_keys (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL CHECK (provider IN ('gemini', 'llm')),
+    secret_id UUID NOT NULL,
+    last_four TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, provider)
+);
+
+ALTER TABLE public.user_provider_keys ENABLE ROW LEVEL SECURITY;
+
+-- Rows hold no key material, only the Vault reference and the hint.
+-- Writes go through set_provider_key and delete_provider_key.
+CREATE POLICY "Users can view their own provider keys"
+ON public.user_provider_keys FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_provider_keys_updated_at
+  BEFORE UPDATE ON public.user_provider_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Store or rotate the caller's key for a provider. Rotating keeps the same
+-- Vault secret and replaces its value.
+CREATE OR REPLACE FUNCTION public.set_provider_key(target_provider text, api_key text)
+RETURNS TABLE (provider text, last_four text, updated_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller uuid := auth.uid();
+  trimmed text := btrim(api_key);
+  existing uuid;
+  hint text;
+BEGIN
+  IF caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF target_provider NOT IN ('gemini', 'llm') THEN
+    RAISE EXCEPTION 'Unknown provider %', target_provider;
+  END IF;
+  IF trimmed IS NULL OR trimmed = '' THEN
+    RAISE EXCEPTION 'API key must not be empty';
+  END IF;
+
+  -- Short keys would give most of themselves away
+  hint := CASE WHEN length(trimmed) >= 12 THEN right(trimmed, 4) END;
+
+  SELECT user_provider_keys.secret_id INTO existing
+  FROM user_provider_keys
+  WHERE user_provider_keys.user_id = caller
+    AND user_provider_keys.provider = target_provider;
+
+  IF existing IS NULL THEN
+    INSERT INTO user_provider_keys (user_id, provider, secret_id, last_four)
+    VALUES (
+      caller,
+      target_provider,
+      vault.create_secret(trimmed, 'provider_key:' || caller || ':' || target_provider),
+      hint
+    );
+  ELSE
+    PERFORM vault.update_secret(existing, trimmed);
+    UPDATE user_provider_keys
+    SET last_four = hint
+    WHERE user_provider_keys.user_id = caller
+      AND user_provider_keys.provider = target_provider;
+  END IF;
+
+  RETURN QUERY
+  SELECT user_provider_keys.provider, user_provider_keys.last_four, user_provider_keys.updated_at
+  FROM user_provider_keys
+  WHERE user_provider_keys.user_id = caller
+    AND user_provider_keys.provider = target_provider;
+END;
+$$;
+
+-- Remove the caller's key for a provider, including the Vault secret
+CREATE OR REPLACE FUNCTION public.delete_provider_key(target_provider text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  removed uuid;
+BEGIN
+  DELETE FROM user_provider_keys
+  WHERE user_provider_keys.user_id = auth.uid()
+    AND user_provider_keys.provider = target_provider
+  RETURNING user_provider_keys.secret_id INTO removed;
+
+  IF removed IS NOT NULL THEN
+    DELETE FROM vault.secrets WHERE vault.secrets.id = removed;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_provider_key(text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.delete_provider_key(text) FROM PUBLIC, anon;
+
+-- Decrypted keys for the edge functions. Service role only.
+CREATE OR REPLACE FUNCTION public.get_provider_keys(target_user_id uuid)
+RETURNS TABLE (provider text, api_key text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_provider_keys.provider, decrypted_secrets.decrypted_secret
+  FROM user_provider_keys
+  JOIN vault.decrypted_secrets ON decrypted_secrets.id = user_provider_keys.secret_id
+  WHERE user_provider_keys.user_id = target_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_provider_keys(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Move existing plaintext keys into Vault, then drop the columns
+INSERT INTO public.user_provider_keys (user_id, provider, secret_id, last_four)
+SELECT
+  user_settings.user_id,
+  keys.provider,
+  vault.create_secret(btrim(keys.api_key), 'provider_key:' || user_settings.user_id || ':' || keys.provider),
+  CASE WHEN length(btrim(keys.api_key)) >= 12 THEN right(btrim(keys.api_key), 4) END
+FROM public.user_settings
+CROSS JOIN LATERAL (
+  VALUES ('gemini', user_settings.gemini_api_key), ('llm', user_settings.llm_api_key)
+) AS keys(provider, api_key)
+WHERE btrim(coalesce(keys.api_key, '')) <> '';
+
+ALTER TABLE public.user_settings
+  DROP COLUMN gemini_api_key,
+  DROP COLUMN llm_api_key;
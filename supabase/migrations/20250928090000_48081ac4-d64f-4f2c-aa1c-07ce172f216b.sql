@@ -0,0 +1,102 @@
+-- Server-side note search for the notes list and the command palette.
+-- Tags join the title at the highest weight, so the generated column is
+-- rebuilt with them (array_to_string is only STABLE, hence the wrapper).
+CREATE OR REPLACE FUNCTION public.tags_to_text(tags text[])
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_to_string(tags, ' '), '');
+$$;
+
+ALTER TABLE public.notes DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE public.notes
+  ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', public.tags_to_text(tags)), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notes_search_vector
+  ON public.notes USING GIN (search_vector);
+
+-- Web-search syntax ("exact phrase", -exclude, or) plus prefix terms written
+-- as word*, which websearch_to_tsquery on its own does not support. Only
+-- standalone terms become prefixes; -word* still just excludes word.
+CREATE OR REPLACE FUNCTION public.notes_search_query(query_text text)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  result tsquery := websearch_to_tsquery('english', regexp_replace(query_text, '(^|\s)[[:alnum:]_]+\*', ' ', 'g'));
+  prefix text;
+  prefix_query tsquery;
+BEGIN
+  FOR prefix IN
+    SELECT match[2] FROM regexp_matches(query_text, '(^|\s)([[:alnum:]_]+)\*', 'g') AS match
+  LOOP
+    prefix_query := to_tsquery('english', prefix || ':*');
+    -- Stop words parse to an empty query
+    IF numnode(prefix_query) > 0 THEN
+      result := CASE WHEN numnode(result) = 0 THEN prefix_query ELSE result && prefix_query END;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- Ranked matches for the caller's notes with highlighted title and snippet.
+-- Matched terms are wrapped in ⟦ ⟧ rather than HTML so the client can render
+-- them without trusting note content as markup.
+CREATE OR REPLACE FUNCTION public.search_notes(query_text text, match_count int DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  tags text[],
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT notes_search_query(query_text) AS terms
+  ),
+  matches AS (
+    SELECT
+      notes.id,
+      notes.title,
+      notes.content,
+      notes.tags,
+      notes.updated_at,
+      ts_rank_cd(notes.search_vector, query.terms, 32) AS rank
+    FROM notes, query
+    WHERE notes.user_id = auth.uid()
+      AND notes.search_vector @@ query.terms
+    ORDER BY rank DESC, notes.updated_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are expensive, so they are only built for the returned rows
+  SELECT
+    matches.id,
+    matches.title,
+    matches.tags,
+    matches.updated_at,
+    matches.rank,
+    ts_headline('english', matches.title, query.terms, 'HighlightAll=true, StartSel=⟦, StopSel=⟧'),
+    ts_headline(
+      'english',
+      coalesce(matches.content, ''),
+      query.terms,
+      'StartSel=⟦, StopSel=⟧, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches, query
+  ORDER BY matches.rank DESC, matches.updated_at DESC;
+$$;
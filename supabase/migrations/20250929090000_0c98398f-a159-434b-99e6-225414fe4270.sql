@@ -0,0 +1,114 @@
+-- Filters for the note search query language: tag:, lang:, has:, and
+-- updated/created date ranges. Code fence languages are kept on the note so
+-- lang: and has:code don't have to scan content at query time.
+CREATE OR REPLACE FUNCTION public.code_fence_languages(content text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- Same fence syntax as the chunker: ``` or ~~~ followed by an info string
+  SELECT coalesce(array_agg(DISTINCT lower(fence[1])), '{}')
+  FROM regexp_matches(coalesce(content, ''), '^[ \t]*(?:`{3,}|~{3,})[ \t]*([[:alnum:]_+#.-]+)', 'gn') AS fence;
+$$;
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS code_languages text[]
+  GENERATED ALWAYS AS (public.code_fence_languages(content)) STORED;
+
+ALTER TABLE public.notes
+  ADD COLUMN IF NOT EXISTS has_code boolean
+  GENERATED ALWAYS AS (coalesce(content, '') ~ '(^|\n)[ \t]*(`{3,}|~{3,})') STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notes_code_languages
+  ON public.notes USING GIN (code_languages);
+
+CREATE INDEX IF NOT EXISTS idx_notes_tags
+  ON public.notes USING GIN (tags);
+
+-- search_notes gains the filters, and an empty query now lists every note
+-- that passes them, most recently updated first. NULL filters are ignored.
+DROP FUNCTION IF EXISTS public.search_notes(text, int);
+
+CREATE OR REPLACE FUNCTION public.search_notes(
+  query_text text DEFAULT '',
+  match_count int DEFAULT 50,
+  filter_tags text[] DEFAULT NULL,
+  exclude_tags text[] DEFAULT NULL,
+  filter_languages text[] DEFAULT NULL,
+  exclude_languages text[] DEFAULT NULL,
+  require_code boolean DEFAULT NULL,
+  require_tasks boolean DEFAULT NULL,
+  require_tags boolean DEFAULT NULL,
+  updated_after timestamptz DEFAULT NULL,
+  updated_before timestamptz DEFAULT NULL,
+  created_after timestamptz DEFAULT NULL,
+  created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  tags text[],
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      notes_search_query(coalesce(query_text, '')) AS terms,
+      numnode(notes_search_query(coalesce(query_text, ''))) > 0 AS has_terms
+  ),
+  matches AS (
+    SELECT
+      notes.id,
+      notes.title,
+      notes.content,
+      notes.tags,
+      notes.updated_at,
+      CASE WHEN query.has_terms THEN ts_rank_cd(notes.search_vector, query.terms, 32) ELSE 0 END AS rank
+    FROM notes, query
+    WHERE notes.user_id = auth.uid()
+      AND (NOT query.has_terms OR notes.search_vector @@ query.terms)
+      AND (filter_tags IS NULL OR notes.tags @> filter_tags)
+      AND (exclude_tags IS NULL OR NOT coalesce(notes.tags && exclude_tags, false))
+      AND (filter_languages IS NULL OR notes.code_languages @> filter_languages)
+      AND (exclude_languages IS NULL OR NOT notes.code_languages && exclude_languages)
+      AND (require_code IS NULL OR notes.has_code = require_code)
+      AND (require_tags IS NULL OR (cardinality(coalesce(notes.tags, '{}')) > 0) = require_tags)
+      AND (require_tasks IS NULL OR EXISTS (
+        SELECT 1 FROM tasks WHERE tasks.linked_note_id = notes.id
+      ) = require_tasks)
+      AND (updated_after IS NULL OR notes.updated_at >= updated_after)
+      AND (updated_before IS NULL OR notes.updated_at < updated_before)
+      AND (created_after IS NULL OR notes.created_at >= created_after)
+      AND (created_before IS NULL OR notes.created_at < created_before)
+    ORDER BY rank DESC, notes.updated_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are expensive, so they are only built for the returned rows
+  SELECT
+    matches.id,
+    matches.title,
+    matches.tags,
+    matches.updated_at,
+    matches.rank,
+    CASE WHEN query.has_terms
+      THEN ts_headline('english', matches.title, query.terms, 'HighlightAll=true, StartSel=⟦, StopSel=⟧')
+      ELSE matches.title
+    END,
+    CASE WHEN query.has_terms
+      THEN ts_headline(
+        'english',
+        coalesce(matches.content, ''),
+        query.terms,
+        'StartSel=⟦, StopSel=⟧, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE left(coalesce(matches.content, ''), 200)
+    END
+  FROM matches, query
+  ORDER BY matches.rank DESC, matches.updated_at DESC;
+$$;
@@ -0,0 +1,96 @@
+-- Related notes: average a note's chunk vectors into one centroid, find the
+-- chunks of other notes closest to it, and keep each note's best chunk as
+-- its score and snippet. Runs as the caller, so RLS limits it to their notes.
+CREATE OR REPLACE FUNCTION public.related_notes(
+  target_note_id uuid,
+  match_count int DEFAULT 5,
+  match_threshold float DEFAULT 0.2,
+  candidate_count int DEFAULT 50
+)
+RETURNS TABLE (
+  note_id uuid,
+  title text,
+  similarity float,
+  matching_chunks int,
+  snippet text,
+  heading_path text[],
+  char_start int,
+  char_end int
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  source_model text;
+  centroid vector;
+BEGIN
+  -- A note is normally embedded by one model; mid re-index, use the one
+  -- that covers most of its chunks
+  SELECT notes_embeddings.model, avg(notes_embeddings.embedding)
+  INTO source_model, centroid
+  FROM notes_embeddings
+  WHERE notes_embeddings.note_id = target_note_id
+    AND notes_embeddings.user_id = auth.uid()
+    AND notes_embeddings.embedding IS NOT NULL
+  GROUP BY notes_embeddings.model
+  ORDER BY count(*) DESC
+  LIMIT 1;
+
+  IF centroid IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  -- Other notes' chunks from the same model as the centroid
+  WITH candidates AS MATERIALIZED (
+    SELECT
+      notes_embeddings.note_id,
+      notes_embeddings.content_chunk,
+      notes_embeddings.heading_path,
+      notes_embeddings.char_start,
+      notes_embeddings.char_end,
+      notes_embeddings.embedding
+    FROM notes_embeddings
+    WHERE notes_embeddings.user_id = auth.uid()
+      AND notes_embeddings.note_id <> target_note_id
+      AND notes_embeddings.model = source_model
+      AND notes_embeddings.dimensions = vector_dims(centroid)
+      AND notes_embeddings.embedding IS NOT NULL
+  ),
+  nearest AS (
+    SELECT
+      candidates.*,
+      1 - (candidates.embedding <=> centroid) AS chunk_similarity
+    FROM candidates
+    ORDER BY candidates.embedding <=> centroid
+    LIMIT candidate_count
+  ),
+  per_note AS (
+    SELECT DISTINCT ON (nearest.note_id)
+      nearest.note_id,
+      nearest.chunk_similarity,
+      count(*) OVER (PARTITION BY nearest.note_id)::int AS chunk_count,
+      nearest.content_chunk,
+      nearest.heading_path,
+      nearest.char_start,
+      nearest.char_end
+    FROM nearest
+    WHERE nearest.chunk_similarity > match_threshold
+    ORDER BY nearest.note_id, nearest.chunk_similarity DESC
+  )
+  SELECT
+    per_note.note_id,
+    notes.title,
+    per_note.chunk_similarity,
+    per_note.chunk_count,
+    per_note.content_chunk,
+    per_note.heading_path,
+    per_note.char_start,
+    per_note.char_end
+  FROM per_note
+  JOIN notes ON notes.id = per_note.note_id
+  ORDER BY per_note.chunk_similarity DESC
+  LIMIT match_count;
+END;
+$$;
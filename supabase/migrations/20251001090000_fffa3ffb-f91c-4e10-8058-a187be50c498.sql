@@ -0,0 +1,56 @@
+-- Note history: every save that changes a note keeps the version it replaced,
+-- so a bad save can be diffed against and rolled back
+CREATE TABLE public.note_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  -- When this version was saved (the note's updated_at at the time)
+  saved_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_note_revisions_note_saved ON public.note_revisions (note_id, saved_at DESC);
+
+-- Revisions are written by the trigger below only
+ALTER TABLE public.note_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note revisions" 
+ON public.note_revisions FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Stores the version a save replaces; only the newest 200 per note are kept
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO note_revisions (note_id, user_id, title, content, tags, saved_at)
+  VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content, COALESCE(OLD.tags, '{}'), OLD.updated_at);
+
+  DELETE FROM note_revisions
+  WHERE note_revisions.id IN (
+    SELECT note_revisions.id
+    FROM note_revisions
+    WHERE note_revisions.note_id = OLD.id
+    ORDER BY note_revisions.saved_at DESC
+    OFFSET 200
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_note_revision_on_update
+AFTER UPDATE OF title, content, tags ON public.notes
+FOR EACH ROW
+WHEN (
+  OLD.title IS DISTINCT FROM NEW.title
+  OR OLD.content IS DISTINCT FROM NEW.content
+  OR OLD.tags IS DISTINCT FROM NEW.tags
+)
+EXECUTE FUNCTION public.record_note_revision();
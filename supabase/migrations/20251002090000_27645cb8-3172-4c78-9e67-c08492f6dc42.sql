@@ -0,0 +1,159 @@
+-- Trash: deleting a note or task sets deleted_at instead of removing the row.
+-- Trashed rows stay readable by their owner (for the Trash view) and every
+-- list query filters on deleted_at IS NULL. They are purged for good once
+-- they've been in the trash longer than the user's retention setting.
+ALTER TABLE public.notes ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.tasks ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_notes_trashed ON public.notes (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_tasks_trashed ON public.tasks (user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE public.user_settings
+  ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+-- A trashed note drops out of chat retrieval and related notes right away;
+-- restoring it queues it for the embedding-worker again
+CREATE OR REPLACE FUNCTION public.clear_trashed_note_embeddings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM embedding_queue WHERE embedding_queue.note_id = NEW.id;
+  DELETE FROM notes_embeddings WHERE notes_embeddings.note_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_note_embeddings_on_trash
+AFTER UPDATE OF deleted_at ON public.notes
+FOR EACH ROW
+WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+EXECUTE FUNCTION public.clear_trashed_note_embeddings();
+
+CREATE TRIGGER enqueue_note_embedding_on_restore
+AFTER UPDATE OF deleted_at ON public.notes
+FOR EACH ROW
+WHEN (OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL)
+EXECUTE FUNCTION public.enqueue_note_embedding();
+
+-- Permanently delete trash older than each user's retention period. Users
+-- without a settings row get the column default.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM notes
+  WHERE notes.deleted_at IS NOT NULL
+    AND notes.deleted_at < now() - make_interval(days => coalesce(
+      (SELECT user_settings.trash_retention_days FROM user_settings WHERE user_settings.user_id = notes.user_id),
+      30
+    ));
+
+  DELETE FROM tasks
+  WHERE tasks.deleted_at IS NOT NULL
+    AND tasks.deleted_at < now() - make_interval(days => coalesce(
+      (SELECT user_settings.trash_retention_days FROM user_settings WHERE user_settings.user_id = tasks.user_id),
+      30
+    ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-expired-trash',
+  '30 3 * * *',
+  $$ SELECT public.purge_expired_trash(); $$
+);
+
+-- search_notes skips trashed notes and trashed linked tasks
+CREATE OR REPLACE FUNCTION public.search_notes(
+  query_text text DEFAULT '',
+  match_count int DEFAULT 50,
+  filter_tags text[] DEFAULT NULL,
+  exclude_tags text[] DEFAULT NULL,
+  filter_languages text[] DEFAULT NULL,
+  exclude_languages text[] DEFAULT NULL,
+  require_code boolean DEFAULT NULL,
+  require_tasks boolean DEFAULT NULL,
+  require_tags boolean DEFAULT NULL,
+  updated_after timestamptz DEFAULT NULL,
+  updated_before timestamptz DEFAULT NULL,
+  created_after timestamptz DEFAULT NULL,
+  created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  tags text[],
+  updated_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT
+      notes_search_query(coalesce(query_text, '')) AS terms,
+      numnode(notes_search_query(coalesce(query_text, ''))) > 0 AS has_terms
+  ),
+  matches AS (
+    SELECT
+      notes.id,
+      notes.title,
+      notes.content,
+      notes.tags,
+      notes.updated_at,
+      CASE WHEN query.has_terms THEN ts_rank_cd(notes.search_vector, query.terms, 32) ELSE 0 END AS rank
+    FROM notes, query
+    WHERE notes.user_id = auth.uid()
+      AND notes.deleted_at IS NULL
+      AND (NOT query.has_terms OR notes.search_vector @@ query.terms)
+      AND (filter_tags IS NULL OR notes.tags @> filter_tags)
+      AND (exclude_tags IS NULL OR NOT coalesce(notes.tags && exclude_tags, false))
+      AND (filter_languages IS NULL OR notes.code_languages @> filter_languages)
+      AND (exclude_languages IS NULL OR NOT notes.code_languages && exclude_languages)
+      AND (require_code IS NULL OR notes.has_code = require_code)
+      AND (require_tags IS NULL OR (cardinality(coalesce(notes.tags, '{}')) > 0) = require_tags)
+      AND (require_tasks IS NULL OR EXISTS (
+        SELECT 1 FROM tasks WHERE tasks.linked_note_id = notes.id AND tasks.deleted_at IS NULL
+      ) = require_tasks)
+      AND (updated_after IS NULL OR notes.updated_at >= updated_after)
+      AND (updated_before IS NULL OR notes.updated_at < updated_before)
+      AND (created_after IS NULL OR notes.created_at >= created_after)
+      AND (created_before IS NULL OR notes.created_at < created_before)
+    ORDER BY rank DESC, notes.updated_at DESC
+    LIMIT match_count
+  )
+  -- Headlines are expensive, so they are only built for the returned rows
+  SELECT
+    matches.id,
+    matches.title,
+    matches.tags,
+    matches.updated_at,
+    matches.rank,
+    CASE WHEN query.has_terms
+      THEN ts_headline('english', matches.title, query.terms, 'HighlightAll=true, StartSel=⟦, StopSel=⟧')
+      ELSE matches.title
+    END,
+    CASE WHEN query.has_terms
+      THEN ts_headline(
+        'english',
+        coalesce(matches.content, ''),
+        query.terms,
+        'StartSel=⟦, StopSel=⟧, MinWords=10, MaxWords=30, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE left(coalesce(matches.content, ''), 200)
+    END
+  FROM matches, query
+  ORDER BY matches.rank DESC, matches.updated_at DESC;
+$$;
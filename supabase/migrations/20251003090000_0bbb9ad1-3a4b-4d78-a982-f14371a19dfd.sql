@@ -0,0 +1,141 @@
+-- [[Note Title]] links between notes. Outgoing links are rebuilt from the
+-- content on every save; target_note_id is the note the title resolved to,
+-- or NULL while no note has that title yet.
+CREATE TABLE public.note_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  target_note_id UUID REFERENCES public.notes(id) ON DELETE SET NULL,
+  target_title TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_note_id, target_title)
+);
+
+CREATE INDEX idx_note_links_target ON public.note_links (target_note_id);
+CREATE INDEX idx_note_links_unresolved ON public.note_links (user_id, lower(target_title)) WHERE target_note_id IS NULL;
+
+-- Links are maintained by the trigger below only
+ALTER TABLE public.note_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own note links" 
+ON public.note_links FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Distinct link titles in a note, trimmed. Same syntax as WIKI_LINK_PATTERN
+-- in src/lib/wikiLinks.ts.
+CREATE OR REPLACE FUNCTION public.extract_note_links(content text)
+RETURNS SETOF text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT btrim(match[1])
+  FROM regexp_matches(coalesce(content, ''), '\[\[([^\[\]\n]+)\]\]', 'g') AS match
+  WHERE btrim(match[1]) <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_note_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.content IS DISTINCT FROM NEW.content THEN
+    DELETE FROM note_links WHERE note_links.source_note_id = NEW.id;
+
+    INSERT INTO note_links (source_note_id, target_note_id, target_title, user_id)
+    SELECT
+      NEW.id,
+      (
+        SELECT notes.id
+        FROM notes
+        WHERE notes.user_id = NEW.user_id
+          AND notes.id <> NEW.id
+          AND notes.deleted_at IS NULL
+          AND lower(notes.title) = lower(link.title)
+        ORDER BY notes.updated_at DESC
+        LIMIT 1
+      ),
+      link.title,
+      NEW.user_id
+    FROM extract_note_links(NEW.content) AS link(title);
+  END IF;
+
+  -- Links written before a note had this title now point to it
+  IF NEW.deleted_at IS NULL AND (
+    TG_OP = 'INSERT'
+    OR OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.deleted_at IS NOT NULL
+  ) THEN
+    UPDATE note_links
+    SET target_note_id = NEW.id
+    WHERE note_links.user_id = NEW.user_id
+      AND note_links.target_note_id IS NULL
+      AND note_links.source_note_id <> NEW.id
+      AND lower(note_links.target_title) = lower(NEW.title);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_note_links_on_insert
+AFTER INSERT ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_note_links();
+
+CREATE TRIGGER sync_note_links_on_update
+AFTER UPDATE OF title, content, deleted_at ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_note_links();
+
+-- After a rename, rewrite [[old title]] to [[new title]] in every note linking
+-- to the renamed one. These are ordinary saves, so each source note gets a
+-- revision and its links are rebuilt. Returns the number of notes changed.
+CREATE OR REPLACE FUNCTION public.rename_note_links(target_note_id uuid, old_title text, new_title text)
+RETURNS int
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  pattern text;
+  replacement text;
+  updated_count int;
+BEGIN
+  pattern := '\[\[\s*' || regexp_replace(btrim(old_title), '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\s*\]\]';
+  replacement := '[[' || replace(btrim(new_title), '\', '\\') || ']]';
+
+  UPDATE notes
+  SET content = regexp_replace(notes.content, pattern, replacement, 'gi')
+  WHERE notes.user_id = auth.uid()
+    AND notes.deleted_at IS NULL
+    AND notes.id IN (
+      SELECT note_links.source_note_id
+      FROM note_links
+      WHERE note_links.target_note_id = rename_note_links.target_note_id
+    )
+    AND notes.content ~* pattern;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+-- Index the links already in existing notes
+INSERT INTO public.note_links (source_note_id, target_note_id, target_title, user_id)
+SELECT
+  notes.id,
+  (
+    SELECT targets.id
+    FROM public.notes AS targets
+    WHERE targets.user_id = notes.user_id
+      AND targets.id <> notes.id
+      AND targets.deleted_at IS NULL
+      AND lower(targets.title) = lower(link.title)
+    ORDER BY targets.updated_at DESC
+    LIMIT 1
+  ),
+  link.title,
+  notes.user_id
+FROM public.notes, public.extract_note_links(notes.content) AS link(title);
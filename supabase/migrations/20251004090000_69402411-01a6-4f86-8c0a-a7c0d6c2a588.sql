@@ -0,0 +1,4 @@
+-- Stream note and task changes to open clients so other tabs and devices stay
+-- current. Realtime applies the tables' RLS, so users only receive their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notes;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
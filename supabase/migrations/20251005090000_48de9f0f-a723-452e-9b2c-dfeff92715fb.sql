@@ -0,0 +1,314 @@
+-- Shared notes: the owner invites other users by email to co-edit a note.
+-- Collaborators can read and edit the note's title, content and tags; only the
+-- owner can trash it, change its owner or manage who it is shared with.
+-- Sharing with an email nobody has confirmed yet leaves a pending invite that
+-- is claimed when someone confirms that email.
+CREATE TABLE public.note_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  note_id UUID NOT NULL REFERENCES public.notes(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL while the invite is pending
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Emails at the time of sharing, for display without reading auth.users
+  owner_email TEXT NOT NULL,
+  email TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (note_id, email)
+);
+
+CREATE INDEX idx_note_shares_user ON public.note_shares (user_id);
+CREATE INDEX idx_note_shares_owner ON public.note_shares (owner_id);
+CREATE INDEX idx_note_shares_pending ON public.note_shares (email) WHERE user_id IS NULL;
+
+-- Lets a collaborator's notes list pick up a share as soon as it is created
+ALTER PUBLICATION supabase_realtime ADD TABLE public.note_shares;
+
+-- Shares are created through share_note() only. Owners can revoke a share and
+-- collaborators can leave.
+ALTER TABLE public.note_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shares of their notes and notes shared with them"
+ON public.note_shares FOR SELECT
+USING (auth.uid() = owner_id OR auth.uid() = user_id);
+
+CREATE POLICY "Users can remove shares of their notes or leave shared notes"
+ON public.note_shares FOR DELETE
+USING (auth.uid() = owner_id OR auth.uid() = user_id);
+
+-- Whether the current user owns the note or it is shared with them. Security
+-- definer so policies on notes can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.can_access_note(target_note_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM notes
+    WHERE notes.id = target_note_id
+      AND notes.deleted_at IS NULL
+      AND (
+        notes.user_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM note_shares
+          WHERE note_shares.note_id = notes.id
+            AND note_shares.user_id = auth.uid()
+        )
+      )
+  );
+$$;
+
+CREATE POLICY "Collaborators can view notes shared with them"
+ON public.notes FOR SELECT
+USING (
+  deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.note_shares
+    WHERE note_shares.note_id = notes.id
+      AND note_shares.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Collaborators can update notes shared with them"
+ON public.notes FOR UPDATE
+USING (
+  deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.note_shares
+    WHERE note_shares.note_id = notes.id
+      AND note_shares.user_id = auth.uid()
+  )
+);
+
+-- RLS can't compare old and new values, so keep the owner-only columns here
+CREATE OR REPLACE FUNCTION public.guard_shared_note_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND auth.uid() IS DISTINCT FROM OLD.user_id
+    AND (NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+  THEN
+    RAISE EXCEPTION 'Only the owner can move a shared note to the trash or change its owner'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shared_note_update
+BEFORE UPDATE ON public.notes
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_shared_note_update();
+
+-- Shares a note the caller owns with the user registered under `email`, or
+-- invites the email if nobody has confirmed it. Both cases return the same
+-- share so the caller can't use this to find out who has an account.
+CREATE OR REPLACE FUNCTION public.share_note(target_note_id uuid, email text)
+RETURNS public.note_shares
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_email text;
+  target_email text := lower(btrim(share_note.email));
+  collaborator_id uuid;
+  share public.note_shares;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notes
+    WHERE notes.id = target_note_id
+      AND notes.user_id = auth.uid()
+      AND notes.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only the owner can share this note';
+  END IF;
+
+  IF target_email !~ '^[^@[:space:]]+@[^@[:space:]]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  SELECT users.email INTO caller_email FROM auth.users WHERE users.id = auth.uid();
+
+  IF target_email = lower(caller_email) THEN
+    RAISE EXCEPTION 'You already own this note';
+  END IF;
+
+  -- Unconfirmed sign-ups don't count, or anyone could claim a share by
+  -- registering someone else's email
+  SELECT users.id INTO collaborator_id
+  FROM auth.users
+  WHERE lower(users.email) = target_email
+    AND users.email_confirmed_at IS NOT NULL;
+
+  INSERT INTO note_shares (note_id, owner_id, user_id, owner_email, email)
+  VALUES (target_note_id, auth.uid(), collaborator_id, COALESCE(caller_email, ''), target_email)
+  ON CONFLICT (note_id, email) DO UPDATE SET user_id = COALESCE(note_shares.user_id, EXCLUDED.user_id)
+  RETURNING * INTO share;
+
+  RETURN share;
+END;
+$$;
+
+-- Hands pending invites to the user once they confirm the invited email
+CREATE OR REPLACE FUNCTION public.claim_note_invites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE note_shares
+  SET user_id = NEW.id
+  WHERE note_shares.user_id IS NULL
+    AND note_shares.email = lower(NEW.email)
+    AND note_shares.owner_id <> NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER claim_note_invites
+AFTER INSERT OR UPDATE OF email_confirmed_at, email ON auth.users
+FOR EACH ROW
+WHEN (NEW.email_confirmed_at IS NOT NULL AND NEW.email IS NOT NULL)
+EXECUTE FUNCTION public.claim_note_invites();
+
+-- The Yjs document behind a shared note's live editing session, so people who
+-- join later continue the same document instead of starting a new one from the
+-- plain text. `content` is the text the state encodes; when the note was saved
+-- outside a session since, the two differ and the state is discarded.
+CREATE TABLE public.note_collab_state (
+  note_id UUID NOT NULL PRIMARY KEY REFERENCES public.notes(id) ON DELETE CASCADE,
+  state TEXT NOT NULL,
+  content TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.note_collab_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the editing state of notes they can access"
+ON public.note_collab_state FOR SELECT
+USING (public.can_access_note(note_id));
+
+-- Saves the merged text of a live editing session together with its Yjs
+-- state. Runs as the caller, so the notes policies and guards apply.
+CREATE OR REPLACE FUNCTION public.save_collab_note(target_note_id uuid, content text, state text)
+RETURNS SETOF public.notes
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Lets record_note_revision() coalesce the stream of small saves
+  PERFORM set_config('app.collab_save', 'on', true);
+
+  RETURN QUERY
+  UPDATE notes
+  SET content = save_collab_note.content
+  WHERE notes.id = target_note_id
+    AND notes.deleted_at IS NULL
+  RETURNING notes.*;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.store_note_collab_state(target_note_id, save_collab_note.content, save_collab_note.state);
+END;
+$$;
+
+-- Collaborators can't write note_collab_state directly; save_collab_note()
+-- checks access by updating the note first
+CREATE OR REPLACE FUNCTION public.store_note_collab_state(target_note_id uuid, content text, state text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_note(target_note_id) THEN
+    RAISE EXCEPTION 'Note not found';
+  END IF;
+
+  INSERT INTO note_collab_state (note_id, state, content, updated_at)
+  VALUES (target_note_id, store_note_collab_state.state, store_note_collab_state.content, now())
+  ON CONFLICT (note_id) DO UPDATE
+  SET state = EXCLUDED.state,
+      content = EXCLUDED.content,
+      updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Live sessions save every few seconds; keep one revision per five minutes
+-- of co-editing instead of one per save
+CREATE OR REPLACE FUNCTION public.record_note_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.collab_save', true) = 'on'
+    AND OLD.title IS NOT DISTINCT FROM NEW.title
+    AND OLD.tags IS NOT DISTINCT FROM NEW.tags
+    AND EXISTS (
+      SELECT 1 FROM note_revisions
+      WHERE note_revisions.note_id = OLD.id
+        AND note_revisions.created_at > now() - interval '5 minutes'
+    )
+  THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO note_revisions (note_id, user_id, title, content, tags, saved_at)
+  VALUES (OLD.id, OLD.user_id, OLD.title, OLD.content, COALESCE(OLD.tags, '{}'), OLD.updated_at);
+
+  DELETE FROM note_revisions
+  WHERE note_revisions.id IN (
+    SELECT note_revisions.id
+    FROM note_revisions
+    WHERE note_revisions.note_id = OLD.id
+    ORDER BY note_revisions.saved_at DESC
+    OFFSET 200
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Live editing runs over private Realtime channels named note:<note id>;
+-- only the owner and collaborators may join, send and track presence
+CREATE OR REPLACE FUNCTION public.can_join_note_channel(topic text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT topic ~ '^note:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    AND public.can_access_note(substr(topic, 6)::uuid);
+$$;
+
+CREATE POLICY "Note collaborators can receive on the note's channel"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND public.can_join_note_channel(realtime.topic())
+);
+
+CREATE POLICY "Note collaborators can send on the note's channel"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND public.can_join_note_channel(realtime.topic())
+);